@@ -1,30 +1,52 @@
 import { useState, useEffect } from 'react';
-import { Card, DraftState } from './types';
+import { Card, CardRating, DraftConfig, DraftState, RoundSummary } from './types';
 import { DraftBoard } from './components/DraftBoard';
+import { DraftSetup } from './components/DraftSetup';
 import { PickedCards } from './components/PickedCards';
 import { TurnLog } from './components/TurnLog';
 import { ResultsTable } from './components/ResultsTable';
 import { SavedDecks } from './components/SavedDecks';
+import { RatingsEditor } from './components/RatingsEditor';
+import { QuickSimControls } from './components/QuickSimControls';
+import { RoundRemovals } from './components/RoundRemovals';
+import { InkSignals } from './components/InkSignals';
+import { RoundSummaryView } from './components/RoundSummaryView';
 import { Toast } from './components/Toast';
 import {
   createNewDraft,
   pickCard,
   undoLastPick,
+  redoPick,
+  rewindToPick,
+  canRewind,
   resetRound,
   resetDraft,
-  getActivePackIndex,
   enrichDraftStateWithBaseCard,
+  DEFAULT_DRAFT_CONFIG,
 } from './lib/draft';
+import { LORCANA_BOOSTER_PROFILE } from './lib/collation';
 import { saveState, loadState, clearState } from './lib/storage';
+import { getCardRatings } from './lib/database';
+import { getSetCode, toRatingsLookup } from './lib/ratings';
+import { autoDraft, AutopickPolicyId, AutoDraftStop } from './lib/autopick';
 
-type Tab = 'draft' | 'saved-decks';
+type Tab = 'draft' | 'saved-decks' | 'ratings';
 
 function App() {
   const [masterCards, setMasterCards] = useState<Card[] | null>(null);
+  const [allCards, setAllCards] = useState<Card[] | null>(null);
   const [draftState, setDraftState] = useState<DraftState | null>(null);
   const [toast, setToast] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('draft');
   const [hasSavedState, setHasSavedState] = useState(false);
+  const [showSetup, setShowSetup] = useState(false);
+  const [draftConfig, setDraftConfig] = useState<DraftConfig>({
+    ...DEFAULT_DRAFT_CONFIG,
+    collation: LORCANA_BOOSTER_PROFILE,
+  });
+  const [setupSeed, setSetupSeed] = useState('');
+  const [ratings, setRatings] = useState<CardRating[]>([]);
+  const [pendingSummary, setPendingSummary] = useState<RoundSummary | null>(null);
 
   const showToast = (message: string) => {
     setToast(message);
@@ -53,6 +75,7 @@ function App() {
         if (!cancelled && data.cards && Array.isArray(data.cards)) {
           // Keep all cards for lookup (needed to enrich saved drafts)
           allCardsForLookup = data.cards;
+          setAllCards(data.cards);
           
           // Filter to only include baseCard: true (exclude duplicates) for new drafts
           const baseCards = data.cards.filter((card: Card) => card.baseCard !== false);
@@ -101,6 +124,18 @@ function App() {
     };
   }, []);
 
+  // Load the team's ratings for the set once the cards are in
+  useEffect(() => {
+    if (!masterCards) return;
+    let cancelled = false;
+    void getCardRatings(getSetCode(masterCards)).then(loaded => {
+      if (!cancelled) setRatings(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [masterCards]);
+
   // Save state whenever it changes
   useEffect(() => {
     if (!draftState) return;
@@ -133,8 +168,31 @@ function App() {
       }
     }
     
-    const newState = createNewDraft(masterCards);
+    setSetupSeed('');
+    setShowSetup(true);
+    setActiveTab('draft');
+  };
+
+  const handleNewDraftFromSeed = () => {
+    if (!draftState) return;
+    if (!draftState.isComplete) {
+      if (!confirm('Start a new draft from this seed? Current progress will be lost.')) {
+        return;
+      }
+    }
+    setDraftConfig(draftState.config);
+    setSetupSeed(draftState.seed);
+    setShowSetup(true);
+    setActiveTab('draft');
+  };
+
+  const handleStartDraft = (config: DraftConfig, seed?: string) => {
+    if (!masterCards) return;
+    // Packs draw from every printing so foil slots can open Enchanted/Iconic cards
+    const newState = createNewDraft(allCards ?? masterCards, config, seed, toRatingsLookup(ratings));
+    setDraftConfig(config);
     setDraftState(newState);
+    setShowSetup(false);
     showToast('New draft started!');
   };
 
@@ -159,14 +217,12 @@ function App() {
           } catch (err) {
             console.error('Failed to load cards for enrichment:', err);
             // Fallback: just load without enrichment
-            setMasterCards(saved.masterCards);
             setDraftState(saved);
             setHasSavedState(true);
             showToast('Draft resumed!');
           }
         } else {
           // Master cards not loaded yet, just load the saved draft
-          setMasterCards(saved.masterCards);
           setDraftState(saved);
           setHasSavedState(true);
           showToast('Draft resumed!');
@@ -185,6 +241,9 @@ function App() {
     if (!draftState) return;
     const newState = pickCard(draftState, cardIndex);
     setDraftState(newState);
+    if (newState.roundSummaries.length > draftState.roundSummaries.length) {
+      setPendingSummary(newState.roundSummaries[newState.roundSummaries.length - 1]);
+    }
   };
 
   const handleUndo = () => {
@@ -198,6 +257,26 @@ function App() {
     }
   };
 
+  const handleRedo = () => {
+    if (!draftState) return;
+    const newState = redoPick(draftState);
+    if (newState) {
+      setDraftState(newState);
+      showToast('Redo successful');
+    } else {
+      showToast('Nothing to redo');
+    }
+  };
+
+  const handleJumpToPick = (pickIndex: number) => {
+    if (!draftState) return;
+    const newState = rewindToPick(draftState, pickIndex);
+    if (newState) {
+      setDraftState(newState);
+      showToast(`Rewound to before pick ${pickIndex + 1}`);
+    }
+  };
+
   const handleResetRound = () => {
     if (!draftState) return;
     if (!confirm('Reset the current round? All picks from this round will be lost.')) {
@@ -213,36 +292,29 @@ function App() {
     if (!confirm('Reset the entire draft? All progress will be lost.')) {
       return;
     }
-    const newState = resetDraft(masterCards);
+    const newState = resetDraft(allCards ?? masterCards, draftState.config, toRatingsLookup(ratings));
     setDraftState(newState);
     showToast('Draft reset');
   };
 
-  const handleQuickSim = () => {
+  const handleQuickSim = (policyId: AutopickPolicyId, stop?: AutoDraftStop) => {
     if (!draftState) return;
-    
-    let currentState = draftState;
-    
-    // Auto-pick first card until draft is complete
-    while (!currentState.isComplete) {
-      const currentRound = currentState.rounds[currentState.rounds.length - 1];
-      const activePackIndex = getActivePackIndex(currentState.currentTurn);
-      const activePack = currentRound.packs[activePackIndex];
-      
-      if (activePack.cards.length > 0) {
-        currentState = pickCard(currentState, 0);
-      } else {
-        console.error('Active pack is empty, cannot continue sim');
-        break;
-      }
+
+    const newState = autoDraft(draftState, policyId, stop);
+    setDraftState(newState);
+    if (newState.isComplete) {
+      showToast('Quick sim complete!');
+    } else {
+      showToast(`Quick sim stopped at round ${newState.currentRound}, turn ${newState.currentTurn} — your pick`);
     }
-    
-    setDraftState(currentState);
-    showToast('Quick sim complete!');
   };
 
   const savedStateExists = hasSavedState;
 
+  // The summary stays up until dismissed, unless the round it covers is undone
+  const showRoundSummary = pendingSummary !== null && draftState !== null &&
+    draftState.roundSummaries.length === pendingSummary.round;
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -281,6 +353,16 @@ function App() {
             >
               Saved Drafts
             </button>
+            <button
+              onClick={() => setActiveTab('ratings')}
+              className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
+                activeTab === 'ratings'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-transparent border-2 border-gray-600 text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              Ratings
+            </button>
           </div>
 
           {masterCards && (
@@ -295,6 +377,18 @@ function App() {
                   New Draft
                 </button>
 
+                {draftState && (
+                  <button
+                    onClick={handleNewDraftFromSeed}
+                    className="px-6 py-3 bg-transparent border-2 border-teal-500 text-teal-500 rounded-lg 
+                      hover:bg-teal-500/10 focus:ring-2 focus:ring-teal-500 
+                      font-semibold transition-colors"
+                    title="Start over with the same seed and format"
+                  >
+                    New Draft from Seed
+                  </button>
+                )}
+
                 {savedStateExists && !draftState && (
                   <button
                     onClick={() => { void handleResumeDraft(); }}
@@ -310,7 +404,7 @@ function App() {
                   <>
                     <button
                       onClick={handleUndo}
-                      disabled={!draftState.undoBuffer}
+                      disabled={!canRewind(draftState) || draftState.pickHistory.length === 0}
                       className="px-4 py-2 bg-transparent border-2 border-yellow-500 text-yellow-500 rounded-lg 
                         hover:bg-yellow-500/10 focus:ring-2 focus:ring-yellow-500 
                         font-semibold transition-colors disabled:opacity-30 
@@ -319,6 +413,17 @@ function App() {
                       Undo Last Pick
                     </button>
 
+                    <button
+                      onClick={handleRedo}
+                      disabled={draftState.redoStack.length === 0}
+                      className="px-4 py-2 bg-transparent border-2 border-yellow-500 text-yellow-500 rounded-lg 
+                        hover:bg-yellow-500/10 focus:ring-2 focus:ring-yellow-500 
+                        font-semibold transition-colors disabled:opacity-30 
+                        disabled:cursor-not-allowed"
+                    >
+                      Redo{draftState.redoStack.length > 0 ? ` (${draftState.redoStack.length})` : ''}
+                    </button>
+
                     <button
                       onClick={handleResetRound}
                       className="px-4 py-2 bg-transparent border-2 border-orange-500 text-orange-500 rounded-lg 
@@ -337,15 +442,7 @@ function App() {
                       Reset Draft
                     </button>
 
-                    <button
-                      onClick={handleQuickSim}
-                      className="px-4 py-2 bg-transparent border-2 border-purple-500 text-purple-500 rounded-lg 
-                        hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-500 
-                        font-semibold transition-colors text-sm"
-                      title="Dev: Auto-complete the draft"
-                    >
-                      Quick Sim
-                    </button>
+                    <QuickSimControls key={draftState.seed} state={draftState} onRun={handleQuickSim} />
                   </>
                 )}
               </div>
@@ -358,17 +455,48 @@ function App() {
         </div>
 
         {/* Main Content */}
-        {activeTab === 'draft' && (
+        {activeTab === 'draft' && showSetup && (
+          <DraftSetup
+            key={setupSeed}
+            initialConfig={draftConfig}
+            initialSeed={setupSeed}
+            onStart={handleStartDraft}
+            onCancel={() => setShowSetup(false)}
+          />
+        )}
+
+        {activeTab === 'draft' && !showSetup && (
           <>
-            {draftState && !draftState.isComplete && (
+            {draftState && showRoundSummary && pendingSummary && (
+              <RoundSummaryView
+                summary={pendingSummary}
+                totalRounds={draftState.config.rounds}
+                onContinue={() => setPendingSummary(null)}
+              />
+            )}
+
+            {draftState && !showRoundSummary && !draftState.isComplete && (
               <div className="space-y-6">
-                <DraftBoard state={draftState} onPickCard={handlePickCard} />
+                <div className="grid gap-6 xl:grid-cols-[1fr_20rem] items-start">
+                  <DraftBoard state={draftState} onPickCard={handlePickCard} />
+                  <InkSignals state={draftState} />
+                </div>
                 <PickedCards picks={draftState.picks} />
-                <TurnLog log={draftState.log} />
+                <TurnLog
+                  log={draftState.log}
+                  mode={draftState.config.mode}
+                  maxEntries={draftState.log.length}
+                  onJumpToPick={canRewind(draftState) ? handleJumpToPick : undefined}
+                />
+                <RoundRemovals
+                  key={draftState.currentRound}
+                  rounds={draftState.rounds}
+                  mode={draftState.config.mode}
+                />
               </div>
             )}
 
-            {draftState && draftState.isComplete && (
+            {draftState && !showRoundSummary && draftState.isComplete && (
               <ResultsTable
                 draftState={draftState}
                 onNewDraft={async () => {
@@ -400,7 +528,11 @@ function App() {
           </>
         )}
 
-        {activeTab === 'saved-decks' && <SavedDecks masterCards={masterCards} />}
+        {activeTab === 'saved-decks' && <SavedDecks masterCards={masterCards} allCards={allCards} />}
+
+        {activeTab === 'ratings' && masterCards && (
+          <RatingsEditor cards={masterCards} onRatingsChanged={setRatings} />
+        )}
 
         <Toast message={toast || ''} visible={!!toast} />
       </div>
@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { Card, CardRatings } from '../types';
+import { buildSealedDecks, DeckBuild, SEALED_DECK_SIZE } from '../lib/deckBuilder';
+
+interface AutoBuildsProps {
+  cards: Card[];
+  ratings: CardRatings;
+  onUse: (build: DeckBuild) => void;
+  onClose: () => void;
+}
+
+const SCORE_LABELS: Array<{ key: keyof DeckBuild['scores']; label: string }> = [
+  { key: 'quality', label: 'Quality' },
+  { key: 'curve', label: 'Curve' },
+  { key: 'inkable', label: 'Inkable' },
+  { key: 'balance', label: 'Balance' },
+];
+
+export function AutoBuilds({ cards, ratings, onUse, onClose }: AutoBuildsProps) {
+  const builds = useMemo(() => buildSealedDecks(cards, ratings), [cards, ratings]);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Auto-Built Decks</h3>
+          <p className="text-sm text-gray-400">
+            Best {SEALED_DECK_SIZE}-card decks from every pair of inks in this pool
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {builds.length === 0 ? (
+        <p className="text-sm text-gray-400">Not enough cards to build a deck.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          {builds.map((build, idx) => {
+            const missing = SEALED_DECK_SIZE - build.cards.length;
+            return (
+              <div key={build.inks.join('/')} className="bg-gray-900/60 border border-gray-700 rounded-lg p-4 space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <h4 className="font-semibold text-white">
+                    <span className="text-gray-500 mr-1">#{idx + 1}</span>
+                    {build.inks.join(' / ')}
+                  </h4>
+                  <span className="text-2xl font-bold text-yellow-300">{Math.round(build.score)}</span>
+                </div>
+                <ul className="space-y-0.5 text-sm">
+                  {SCORE_LABELS.map(({ key, label }) => (
+                    <li key={key} className="flex justify-between text-gray-300">
+                      <span>{label}</span>
+                      <span className="text-white">{Math.round(build.scores[key] * 100)}%</span>
+                    </li>
+                  ))}
+                </ul>
+                {missing > 0 && (
+                  <p className="text-xs text-red-400">
+                    Only {build.cards.length} cards in these inks ({missing} short)
+                  </p>
+                )}
+                <button
+                  onClick={() => onUse(build)}
+                  className="w-full px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+                >
+                  Use this build
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { BotState, CardRatings } from '../types';
+import { getTally } from '../lib/draft';
+import { describeBotInks, getBotInkWeights } from '../lib/bots';
+import { INKS } from '../lib/inks';
+
+interface BotPoolsProps {
+  bots: BotState[];
+  ratings?: CardRatings;
+}
+
+export function BotPools({ bots, ratings = {} }: BotPoolsProps) {
+  const [expandedBotId, setExpandedBotId] = useState<number | null>(null);
+
+  if (bots.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg">
+      <h3 className="text-2xl font-bold text-white mb-1">The Table</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        What each bot drafted. Bot 1 sat one seat after you and saw each pack right after you did.
+      </p>
+
+      <div className="space-y-3">
+        {bots.map(bot => {
+          const weights = getBotInkWeights(bot, ratings);
+          const totalWeight = INKS.reduce((sum, ink) => sum + weights[ink], 0) || 1;
+          const expanded = expandedBotId === bot.id;
+          const cards = bot.pool.map(pick => pick.card);
+
+          return (
+            <div key={bot.id} className="bg-gray-900/60 border border-gray-700 rounded-lg p-3">
+              <button
+                onClick={() => setExpandedBotId(expanded ? null : bot.id)}
+                className="w-full flex items-center justify-between gap-4 text-left"
+              >
+                <div>
+                  <span className="font-semibold text-white">{bot.name}</span>
+                  <span className="text-sm text-gray-400"> — {describeBotInks(bot, ratings)} • {bot.pool.length} cards</span>
+                </div>
+                <div className="flex-1 max-w-xs flex h-2 rounded-full overflow-hidden bg-gray-700">
+                  {INKS.map(ink => (
+                    <div
+                      key={ink}
+                      title={`${ink}: ${Math.round((weights[ink] / totalWeight) * 100)}%`}
+                      className={inkBarClass[ink]}
+                      style={{ width: `${(weights[ink] / totalWeight) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <span className="text-gray-400 text-sm">{expanded ? '▲' : '▼'}</span>
+              </button>
+
+              {expanded && (
+                <ul className="mt-3 grid gap-1 sm:grid-cols-2 lg:grid-cols-3 text-sm">
+                  {getTally(cards).map(entry => (
+                    <li key={`${entry.fullName}|${entry.color}`} className="text-gray-300">
+                      <span className="text-white font-semibold">{entry.count}×</span> {entry.fullName}{' '}
+                      <span className="text-gray-500">({entry.color})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const inkBarClass: Record<string, string> = {
+  'Amber': 'bg-yellow-500',
+  'Amethyst': 'bg-purple-500',
+  'Emerald': 'bg-green-500',
+  'Ruby': 'bg-red-500',
+  'Sapphire': 'bg-blue-500',
+  'Steel': 'bg-gray-400',
+};
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { CollationProfile, PackSlot } from '../types';
+import { RARITIES, getProfileCardCount, validateCollationProfile } from '../lib/collation';
+
+interface CollationEditorProps {
+  profile: CollationProfile;
+  onSave: (profile: CollationProfile) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+const makeEmptySlot = (): PackSlot => ({
+  name: '',
+  count: 1,
+  weights: { Common: 1 },
+});
+
+export function CollationEditor({ profile, onSave, onCancel }: CollationEditorProps) {
+  const [draft, setDraft] = useState<CollationProfile>(profile);
+  const [saving, setSaving] = useState(false);
+
+  const errors = validateCollationProfile(draft);
+
+  const updateSlot = (index: number, changes: Partial<PackSlot>) => {
+    setDraft(prev => ({
+      ...prev,
+      slots: prev.slots.map((slot, idx) => (idx === index ? { ...slot, ...changes } : slot)),
+    }));
+  };
+
+  const updateWeight = (index: number, rarity: string, value: string) => {
+    const parsed = parseFloat(value);
+    const slot = draft.slots[index];
+    const weights = { ...slot.weights };
+    if (isNaN(parsed) || parsed === 0) {
+      delete weights[rarity];
+    } else {
+      weights[rarity] = parsed;
+    }
+    updateSlot(index, { weights });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="block text-sm text-gray-300 flex-1 min-w-[12rem]">
+          <span className="block mb-1">Profile name</span>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+          />
+        </label>
+        <span className="text-sm text-gray-400">{getProfileCardCount(draft)} cards per pack</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-gray-700 text-gray-300">
+              <th className="px-2 py-2 font-semibold">Slot</th>
+              <th className="px-2 py-2 font-semibold">Cards</th>
+              <th className="px-2 py-2 font-semibold">Foil</th>
+              {RARITIES.map(rarity => (
+                <th key={rarity} className="px-2 py-2 font-semibold whitespace-nowrap">{rarity}</th>
+              ))}
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.slots.map((slot, idx) => (
+              <tr key={idx} className="border-b border-gray-700/50">
+                <td className="px-2 py-2">
+                  <input
+                    type="text"
+                    value={slot.name}
+                    onChange={(e) => updateSlot(idx, { name: e.target.value })}
+                    placeholder={`Slot ${idx + 1}`}
+                    className="w-32 px-2 py-1 rounded bg-gray-900 border border-gray-600 text-white"
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={slot.count}
+                    onChange={(e) => updateSlot(idx, { count: parseInt(e.target.value, 10) || 0 })}
+                    className="w-16 px-2 py-1 rounded bg-gray-900 border border-gray-600 text-white"
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <input
+                    type="checkbox"
+                    checked={!!slot.foil}
+                    onChange={(e) => updateSlot(idx, { foil: e.target.checked })}
+                    className="w-4 h-4 rounded border-gray-600 bg-gray-900 text-yellow-400 focus:ring-yellow-400"
+                  />
+                </td>
+                {RARITIES.map(rarity => (
+                  <td key={rarity} className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={slot.weights[rarity] ?? ''}
+                      onChange={(e) => updateWeight(idx, rarity, e.target.value)}
+                      className="w-16 px-2 py-1 rounded bg-gray-900 border border-gray-600 text-white"
+                    />
+                  </td>
+                ))}
+                <td className="px-2 py-2">
+                  <button
+                    onClick={() => setDraft(prev => ({ ...prev, slots: prev.slots.filter((_, i) => i !== idx) }))}
+                    className="px-2 py-1 rounded-md border border-red-500 text-xs text-red-300 hover:bg-red-500/10 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Weights are relative odds within a slot. Regular slots draw base cards; foil slots can also
+        open Epic, Enchanted and Iconic printings.
+      </p>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm space-y-1">
+          {errors.map(error => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, slots: [...prev.slots, makeEmptySlot()] }))}
+          className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+        >
+          Add Slot
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-300 hover:bg-gray-500/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => { void handleSave(); }}
+          disabled={saving || errors.length > 0}
+          className="px-3 py-1 border-2 border-purple-500 rounded-lg text-sm text-purple-300 hover:bg-purple-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Profile'}
+        </button>
+      </div>
+    </div>
+  );
+}
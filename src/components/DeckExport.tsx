@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Card } from '../types';
+import { DECK_CODECS, DeckCodecId, getDeckCodec, getDeckFileName } from '../lib/deckCodecs';
+
+const CODEC_STORAGE_KEY = 'lorcana-deck-codec';
+
+export const downloadText = (fileName: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * The export format last picked anywhere in the app
+ */
+export function useDeckCodecChoice(): [DeckCodecId, (id: DeckCodecId) => void] {
+  const [codecId, setCodecId] = useState<DeckCodecId>(
+    () => getDeckCodec(window.localStorage.getItem(CODEC_STORAGE_KEY)).id
+  );
+  useEffect(() => {
+    window.localStorage.setItem(CODEC_STORAGE_KEY, codecId);
+  }, [codecId]);
+  return [codecId, setCodecId];
+}
+
+/**
+ * Copy a deck in a codec's format; resolves false when the clipboard refuses
+ */
+export async function copyDeck(codecId: DeckCodecId, deckName: string, cards: Card[]): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(getDeckCodec(codecId).encode(cards, deckName));
+    return true;
+  } catch (err) {
+    console.error('Failed to copy deck:', err);
+    return false;
+  }
+}
+
+/**
+ * Download a deck as a file in a codec's format
+ */
+export function downloadDeck(codecId: DeckCodecId, deckName: string, cards: Card[]): void {
+  const codec = getDeckCodec(codecId);
+  downloadText(getDeckFileName(deckName, codec), codec.encode(cards, deckName), codec.mimeType);
+}
+
+interface DeckCodecSelectProps {
+  value: DeckCodecId;
+  onChange: (id: DeckCodecId) => void;
+}
+
+export function DeckCodecSelect({ value, onChange }: DeckCodecSelectProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      <span>Format</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as DeckCodecId)}
+        title={getDeckCodec(value).description}
+        className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+      >
+        {DECK_CODECS.map(codec => (
+          <option key={codec.id} value={codec.id}>
+            {codec.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface DeckExportProps {
+  deckName: string;
+  cards: Card[];
+}
+
+/**
+ * Format picker with Copy and Download buttons for one deck
+ */
+export function DeckExport({ deckName, cards }: DeckExportProps) {
+  const [codecId, setCodecId] = useDeckCodecChoice();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    if (await copyDeck(codecId, deckName, cards)) {
+      setCopied(true);
+    } else {
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <DeckCodecSelect value={codecId} onChange={setCodecId} />
+      <button
+        onClick={handleCopy}
+        disabled={cards.length === 0}
+        className="px-4 py-2 rounded-lg border-2 border-green-500 text-green-300 hover:bg-green-500/10 focus:ring-2 focus:ring-green-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        {copied ? 'Copied! ✓' : 'Copy'}
+      </button>
+      <button
+        onClick={() => downloadDeck(codecId, deckName, cards)}
+        disabled={cards.length === 0}
+        className="px-4 py-2 rounded-lg border-2 border-blue-500 text-blue-300 hover:bg-blue-500/10 focus:ring-2 focus:ring-blue-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Download
+      </button>
+    </div>
+  );
+}
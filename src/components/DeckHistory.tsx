@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { DeckVersion, SavedDeck, getDeckVersions, restoreDeckVersion } from '../lib/database';
+import { DeckCardChange, diffDeckCards } from '../lib/deckHistory';
+
+interface DeckHistoryProps {
+  deck: SavedDeck;
+  onRestored: () => void | Promise<void>;
+  onClose: () => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+function ChangeList({ title, changes, className }: { title: string; changes: DeckCardChange[]; className: string }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">{title}</h4>
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <ul className="space-y-0.5 text-sm">
+          {changes.map(({ card, before, after }) => (
+            <li key={card.fullName} className="flex justify-between gap-3">
+              <span className="text-gray-200">{card.fullName}</span>
+              <span className={`whitespace-nowrap ${className}`}>
+                {after > before ? '+' : '−'}{Math.abs(after - before)}
+                <span className="text-gray-500"> ({before} → {after})</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A saved deck's versions, the card changes between any two of them, and
+ * a way back to an earlier list
+ */
+export function DeckHistory({ deck, onRestored, onClose }: DeckHistoryProps) {
+  const [versions, setVersions] = useState<DeckVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    const loaded = await getDeckVersions(deck.id);
+    setVersions(loaded);
+    setToId(loaded[0]?.id ?? null);
+    setFromId((loaded[1] ?? loaded[0])?.id ?? null);
+    setLoading(false);
+  }, [deck.id]);
+
+  useEffect(() => {
+    void loadVersions();
+  }, [loadVersions]);
+
+  // Versions are numbered from the first save
+  const versionNumber = (version: DeckVersion) => versions.length - versions.indexOf(version);
+  const versionLabel = (version: DeckVersion) =>
+    `v${versionNumber(version)} • ${formatDate(version.created_at)}${version.note ? ` • ${version.note}` : ''}`;
+
+  const fromVersion = versions.find(version => version.id === fromId) ?? null;
+  const toVersion = versions.find(version => version.id === toId) ?? null;
+  const diff = useMemo(
+    () => (fromVersion && toVersion ? diffDeckCards(fromVersion.cards, toVersion.cards) : null),
+    [fromVersion, toVersion]
+  );
+
+  const handleRestore = async (version: DeckVersion) => {
+    if (!confirm(`Replace the current cards of "${deck.name}" with ${versionLabel(version)}?`)) return;
+    setRestoring(true);
+    try {
+      await restoreDeckVersion(deck.id, version.id, `Restored v${versionNumber(version)}`);
+      await loadVersions();
+      await onRestored();
+    } catch (err) {
+      console.error('Failed to restore deck version:', err);
+      alert('Failed to restore this version. Please try again.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const versionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+    >
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>
+          {versionLabel(version)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-800 rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white">History: {deck.name}</h2>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-transparent border-2 border-gray-500 text-gray-300 rounded-lg
+              hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-500
+              font-semibold transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-400">Loading history...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-400">No saved versions for this deck.</p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+            <div className="bg-gray-900/50 p-4 rounded-lg space-y-3">
+              <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Versions</h3>
+              <ul className="space-y-2">
+                {versions.map((version, idx) => (
+                  <li
+                    key={version.id}
+                    className="flex items-start justify-between gap-3 rounded-lg bg-gray-900/90 p-3 border border-gray-700"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-white">
+                        v{versionNumber(version)}
+                        {idx === 0 && <span className="ml-2 text-xs text-green-400">Current</span>}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {version.total_cards} cards • {formatDate(version.created_at)}
+                      </p>
+                      {version.note && <p className="text-xs text-gray-300">{version.note}</p>}
+                    </div>
+                    {idx > 0 && (
+                      <button
+                        onClick={() => { void handleRestore(version); }}
+                        disabled={restoring}
+                        className="px-3 py-1 rounded-md border border-purple-500 text-xs text-purple-300 hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="bg-gray-900/50 p-4 rounded-lg space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="space-y-1 text-sm text-gray-300">
+                  <span>From</span>
+                  {versionSelect(fromId, setFromId)}
+                </label>
+                <label className="space-y-1 text-sm text-gray-300">
+                  <span>To</span>
+                  {versionSelect(toId, setToId)}
+                </label>
+              </div>
+              {diff && (
+                <>
+                  <p className="text-sm text-gray-400">
+                    {diff.added.length === 0 && diff.removed.length === 0
+                      ? 'Same cards in both versions.'
+                      : `${diff.unchanged} cards in both versions`}
+                  </p>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <ChangeList title="Added" changes={diff.added} className="text-green-400" />
+                    <ChangeList title="Removed" changes={diff.removed} className="text-red-400" />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
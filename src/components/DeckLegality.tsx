@@ -0,0 +1,59 @@
+import { Card } from '../types';
+import { DECK_FORMATS, DeckFormatId, DeckValidation, getDeckFormat } from '../lib/deckValidation';
+
+const MAX_CONFIRM_ERRORS = 6;
+
+interface DeckLegalityProps {
+  validation: DeckValidation;
+  formatId: DeckFormatId;
+  onFormatChange: (formatId: DeckFormatId) => void;
+}
+
+export function DeckLegality({ validation, formatId, onFormatChange }: DeckLegalityProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <span>Format</span>
+          <select
+            value={formatId}
+            onChange={(e) => onFormatChange(e.target.value as DeckFormatId)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+          >
+            {DECK_FORMATS.map(format => (
+              <option key={format.id} value={format.id}>{format.name}</option>
+            ))}
+          </select>
+        </label>
+        <span className={`text-xs font-semibold uppercase tracking-wide ${validation.legal ? 'text-green-400' : 'text-red-400'}`}>
+          {validation.legal ? 'Legal' : 'Not legal'}
+        </span>
+      </div>
+      {(validation.errors.length > 0 || validation.warnings.length > 0) && (
+        <ul className="space-y-0.5 text-xs max-h-32 overflow-y-auto">
+          {validation.errors.map(error => (
+            <li key={error} className="text-red-300">✕ {error}</li>
+          ))}
+          {validation.warnings.map(warning => (
+            <li key={warning} className="text-yellow-300">! {warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Ask before saving a deck that breaks its format's rules. Returns true to go ahead.
+ */
+export function confirmDeckSave(cards: Card[], validation: DeckValidation, formatId: DeckFormatId): boolean {
+  if (validation.legal) return true;
+  const format = getDeckFormat(formatId);
+  const shown = validation.errors.slice(0, MAX_CONFIRM_ERRORS).map(error => `• ${error}`);
+  if (validation.errors.length > MAX_CONFIRM_ERRORS) {
+    shown.push(`…and ${validation.errors.length - MAX_CONFIRM_ERRORS} more`);
+  }
+  return confirm(
+    `This ${cards.length}-card deck isn't legal for ${format.name}:\n\n${shown.join('\n')}\n\nSave it anyway?`
+  );
+}
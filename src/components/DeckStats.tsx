@@ -0,0 +1,114 @@
+import { useMemo } from 'react';
+import { Card } from '../types';
+import { getDeckStats } from '../lib/deckUtils';
+import { INKS } from '../lib/inks';
+
+interface DeckStatsProps {
+  cards: Card[];
+}
+
+const COSTS = [1, 2, 3, 4, 5, 6, 7];
+
+const inkBarClass: Record<string, string> = {
+  'Amber': 'bg-yellow-500',
+  'Amethyst': 'bg-purple-500',
+  'Emerald': 'bg-green-500',
+  'Ruby': 'bg-red-500',
+  'Sapphire': 'bg-blue-500',
+  'Steel': 'bg-gray-400',
+};
+
+export function DeckStats({ cards }: DeckStatsProps) {
+  const stats = useMemo(() => getDeckStats(cards), [cards]);
+  const inks = INKS.filter(ink => stats.curveByInk[ink]);
+  const tallest = Math.max(1, ...COSTS.map(cost => stats.curve[cost] ?? 0));
+
+  if (stats.total === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+        <Stat label="Inkable" value={`${stats.inkable}`} detail={`${stats.uninkable} not`} />
+        <Stat label="Characters" value={`${stats.characters}`} detail={`of ${stats.total}`} />
+        <Stat label="Avg lore" value={stats.averageLore.toFixed(2)} detail="per character" />
+        <Stat label="Total lore" value={`${stats.totalLore}`} detail="characters + locations" />
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Cost curve</h4>
+        <div className="flex items-end gap-1 h-24">
+          {COSTS.map(cost => (
+            <div key={cost} className="flex-1 flex flex-col items-center justify-end h-full">
+              <span className="text-xs text-gray-400">{stats.curve[cost] ?? 0}</span>
+              <div className="w-full flex flex-col-reverse rounded-t overflow-hidden" style={{ height: `${((stats.curve[cost] ?? 0) / tallest) * 100}%` }}>
+                {inks.map(ink => {
+                  const count = stats.curveByInk[ink][cost] ?? 0;
+                  return count > 0 && (
+                    <div
+                      key={ink}
+                      className={inkBarClass[ink]}
+                      style={{ height: `${(count / (stats.curve[cost] ?? 1)) * 100}%` }}
+                      title={`${ink}: ${count} at ${cost === 7 ? '7+' : cost}`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {COSTS.map(cost => (
+            <span key={cost} className="flex-1 text-center text-xs text-gray-500">{cost === 7 ? '7+' : cost}</span>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-400">
+          {inks.map(ink => (
+            <span key={ink} className="flex items-center gap-1">
+              <span className={`inline-block w-2 h-2 rounded-full ${inkBarClass[ink]}`} />
+              {ink}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 text-sm">
+        <div>
+          <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Types</h4>
+          <ul className="space-y-0.5">
+            {stats.types.map(({ type, count }) => (
+              <li key={type} className="flex justify-between text-gray-300">
+                <span>{type}</span>
+                <span className="text-white">{count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Keywords</h4>
+          {stats.keywords.length === 0 ? (
+            <p className="text-gray-500">None</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {stats.keywords.map(({ keyword, count }) => (
+                <li key={keyword} className="flex justify-between text-gray-300">
+                  <span>{keyword}</span>
+                  <span className="text-white">{count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-2">
+      <div className="text-xs text-gray-400 uppercase tracking-wide">{label}</div>
+      <div className="text-xl font-bold text-white">{value}</div>
+      <div className="text-xs text-gray-500">{detail}</div>
+    </div>
+  );
+}
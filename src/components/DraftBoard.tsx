@@ -1,6 +1,12 @@
+import { useState, useMemo } from 'react';
 import { DraftState } from '../types';
 import { PackView } from './PackView';
-import { getActivePackIndex } from '../lib/draft';
+import { getActivePackIndex, getTurnsPerRound, getPassDirection, getBotForPack } from '../lib/draft';
+import { advisePicks } from '../lib/advisor';
+import { getWheelInfo } from '../lib/wheel';
+import { INKS } from '../lib/inks';
+
+const ADVISOR_STORAGE_KEY = 'lorcana-pick-advisor';
 
 interface DraftBoardProps {
   state: DraftState;
@@ -8,9 +14,32 @@ interface DraftBoardProps {
 }
 
 export function DraftBoard({ state, onPickCard }: DraftBoardProps) {
+  const { config } = state;
   const currentRound = state.rounds[state.rounds.length - 1];
-  const activePackIndex = getActivePackIndex(state.currentTurn);
+  const activePackIndex = getActivePackIndex(state);
+  const isPod = config.mode === 'pod';
   const activePack = currentRound.packs[activePackIndex];
+  const turnsPerRound = getTurnsPerRound(config);
+
+  const [showAdvisor, setShowAdvisor] = useState(
+    () => window.localStorage.getItem(ADVISOR_STORAGE_KEY) !== 'off'
+  );
+  const advice = useMemo(
+    () => (showAdvisor ? advisePicks(activePack.cards, state.picks, state.ratings) : null),
+    [showAdvisor, activePack.cards, state.picks, state.ratings]
+  );
+
+  const wheel = useMemo(() => getWheelInfo(activePack), [activePack]);
+  const goneByInk = wheel
+    ? INKS
+      .map(ink => ({ ink, count: wheel.gone.filter(record => record.card.color === ink).length }))
+      .filter(({ count }) => count > 0)
+    : [];
+
+  const toggleAdvisor = () => {
+    window.localStorage.setItem(ADVISOR_STORAGE_KEY, showAdvisor ? 'off' : 'on');
+    setShowAdvisor(!showAdvisor);
+  };
 
   return (
     <div className="space-y-4">
@@ -18,10 +47,23 @@ export function DraftBoard({ state, onPickCard }: DraftBoardProps) {
       <div className="bg-gray-800 px-4 py-2 rounded-lg">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-white">
-            Round {state.currentRound}/6 — Turn {state.currentTurn}/12
+            Round {state.currentRound}/{config.rounds} — Turn {state.currentTurn}/{turnsPerRound}
           </h2>
+          <p className="text-xs text-gray-400 font-mono" title="Share this seed to draft the same packs">
+            Seed: {state.seed}
+          </p>
           <p className="text-sm text-yellow-400 font-semibold">
+            {isPod && (
+              <span className="text-gray-300 font-normal">
+                Passing {getPassDirection(state.currentRound) === 1 ? 'left ←' : 'right →'} —{' '}
+              </span>
+            )}
             Pack #{activePackIndex + 1}
+            {config.picksPerTurn > 1 && (
+              <span className="text-gray-300 font-normal">
+                {' '}— Pick {state.picksThisTurn + 1}/{config.picksPerTurn}
+              </span>
+            )}
           </p>
         </div>
       </div>
@@ -30,7 +72,7 @@ export function DraftBoard({ state, onPickCard }: DraftBoardProps) {
       <div className="relative bg-gray-800 rounded-full h-2 overflow-hidden">
         <div className="absolute inset-0 flex">
           {currentRound.packs.map((pack, idx) => {
-            const totalCards = 12;
+            const totalCards = config.packSize;
             const remainingCards = pack.cards.length;
             const fillPercentage = (remainingCards / totalCards) * 100;
             
@@ -61,7 +103,10 @@ export function DraftBoard({ state, onPickCard }: DraftBoardProps) {
       </div>
 
       {/* Pack labels below the line */}
-      <div className="grid grid-cols-6 gap-2 -mt-2">
+      <div
+        className="grid gap-2 -mt-2"
+        style={{ gridTemplateColumns: `repeat(${currentRound.packs.length}, minmax(0, 1fr))` }}
+      >
         {currentRound.packs.map((pack, idx) => (
           <div
             key={pack.id}
@@ -72,18 +117,64 @@ export function DraftBoard({ state, onPickCard }: DraftBoardProps) {
             }`}
           >
             P{idx + 1}: {pack.cards.length}
+            {isPod && idx !== activePackIndex && (
+              <div className="text-gray-600">{getBotForPack(state, idx)?.name}</div>
+            )}
           </div>
         ))}
       </div>
 
       {/* Active Pack - Large Display */}
       <div className="bg-gray-800 p-6 rounded-lg">
+        <div className="flex justify-end mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAdvisor}
+              onChange={toggleAdvisor}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-900 text-green-400 focus:ring-green-400"
+            />
+            Pick advisor
+            {!showAdvisor && <span className="text-gray-500">(blind)</span>}
+          </label>
+        </div>
         <PackView
           pack={activePack}
           isActive={true}
           onPickCard={onPickCard}
           showCards={true}
+          advice={advice}
+          wheeled={wheel?.wheeled}
         />
+
+        {wheel && (
+          <div className="mt-4 border-t border-gray-700 pt-3">
+            <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-1">
+              Gone since you passed this pack on turn {wheel.seenOnTurn}
+            </h3>
+            {wheel.gone.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing — every card wheeled.</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-400 mb-1">
+                  {wheel.wheeled.filter(Boolean).length} wheeled, {wheel.gone.length} gone:{' '}
+                  {goneByInk.map(({ ink, count }) => `${count} ${ink}`).join(', ')}
+                </p>
+                <ul className="flex flex-wrap gap-1 text-xs">
+                  {wheel.gone.map((record, idx) => (
+                    <li
+                      key={idx}
+                      className="px-2 py-0.5 rounded bg-gray-900 border border-gray-700 text-gray-300"
+                      title={`Turn ${record.turn}: ${record.reason}`}
+                    >
+                      {record.card.fullName} <span className="text-gray-500">({record.card.color})</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,175 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, DraftState } from '../types';
+import { buildDraftReplay } from '../lib/draft';
+
+interface DraftReplayProps {
+  draftState: DraftState;
+  onClose: () => void;
+}
+
+const PLAY_INTERVAL_MS = 1500;
+
+export function DraftReplay({ draftState, onClose }: DraftReplayProps) {
+  const steps = useMemo(() => buildDraftReplay(draftState), [draftState]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [hoveredCard, setHoveredCard] = useState<Card | null>(null);
+
+  const lastIndex = steps ? steps.length - 1 : 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stepIndex >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = window.setTimeout(() => setStepIndex(idx => idx + 1), PLAY_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, stepIndex, lastIndex]);
+
+  if (!steps) {
+    return (
+      <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+        <p className="text-gray-300">
+          This draft was saved before picks were recorded step by step, so it can't be replayed.
+        </p>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 bg-transparent border-2 border-gray-500 text-gray-300 rounded-lg
+            hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-500
+            font-semibold transition-colors"
+        >
+          Close Replay
+        </button>
+      </div>
+    );
+  }
+
+  const step = steps[stepIndex];
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-bold text-white">Replay</h3>
+          <p className="text-sm text-gray-300">
+            Pick {stepIndex + 1} of {steps.length} — Round {step.round}, Turn {step.turn} — Pack #{step.packIndex + 1}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => { setPlaying(false); setStepIndex(idx => Math.max(0, idx - 1)); }}
+            disabled={stepIndex === 0}
+            className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            ◀ Previous
+          </button>
+          <button
+            onClick={() => {
+              if (!playing && stepIndex >= lastIndex) setStepIndex(0);
+              setPlaying(!playing);
+            }}
+            className="px-3 py-1 border-2 border-green-500 rounded-lg text-sm text-green-400 hover:bg-green-500/10 transition-colors"
+          >
+            {playing ? '❚❚ Pause' : '▶ Play'}
+          </button>
+          <button
+            onClick={() => { setPlaying(false); setStepIndex(idx => Math.min(lastIndex, idx + 1)); }}
+            disabled={stepIndex >= lastIndex}
+            className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Next ▶
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-300 hover:bg-gray-500/10 transition-colors"
+          >
+            Close Replay
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastIndex}
+        value={stepIndex}
+        onChange={(e) => { setPlaying(false); setStepIndex(parseInt(e.target.value, 10)); }}
+        className="w-full accent-yellow-400"
+      />
+
+      <div className="grid gap-6 lg:grid-cols-[3fr_1fr]">
+        <div>
+          <p className="text-sm text-gray-300 mb-3">
+            Took <span className="text-yellow-300 font-semibold">{step.picked.fullName}</span>{' '}
+            ({step.picked.color}) from {step.pack.length} card{step.pack.length === 1 ? '' : 's'}
+          </p>
+          <div className="grid grid-cols-3 md:grid-cols-4 xl:grid-cols-6 gap-3">
+            {step.pack.map((card, idx) => (
+              <div
+                key={`${card.id}-${idx}`}
+                onMouseEnter={() => setHoveredCard(card)}
+                onMouseLeave={() => setHoveredCard(null)}
+                className={`relative rounded-lg overflow-hidden border-2 ${
+                  idx === step.cardIndex ? 'border-yellow-400' : 'border-gray-700 opacity-60'
+                }`}
+              >
+                {card.images?.full ? (
+                  <img
+                    src={card.images.full}
+                    alt={card.fullName}
+                    className="w-full aspect-[2.5/3.5] object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full aspect-[2.5/3.5] bg-gray-900 flex items-center justify-center p-2 text-center">
+                    <span className="text-gray-400 text-xs">{card.fullName}</span>
+                  </div>
+                )}
+                {idx === step.cardIndex && (
+                  <div className="absolute top-1 left-1 bg-yellow-400 text-gray-900 text-xs font-bold px-2 py-0.5 rounded">
+                    PICKED
+                  </div>
+                )}
+                {card.foil && (
+                  <div className="absolute top-1 right-1 bg-gradient-to-r from-pink-400 via-yellow-300 to-sky-400 text-gray-900 text-xs font-bold px-2 py-0.5 rounded">
+                    FOIL
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">
+            Removed from other packs
+          </h4>
+          {step.removed.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing this pick.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {step.removed.map(({ packIndex, record }, idx) => (
+                <li key={idx} className="text-gray-300">
+                  <span className="text-gray-500">P{packIndex + 1}:</span>{' '}
+                  <span className="text-white">{record.card.fullName}</span>{' '}
+                  <span className="text-gray-500">({record.reason})</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {hoveredCard && hoveredCard.images?.full && (
+        <div className="fixed top-4 right-4 z-50 pointer-events-none">
+          <img
+            src={hoveredCard.images.full}
+            alt={hoveredCard.fullName}
+            className="w-[480px] rounded-xl shadow-2xl border-4 border-yellow-400"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
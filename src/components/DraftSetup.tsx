@@ -0,0 +1,305 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CollationProfile, DraftConfig, DraftMode, RemovalStrategyId } from '../types';
+import {
+  DRAFT_PRESETS,
+  getPicksPerRound,
+  getTurnsPerRound,
+  validateDraftConfig,
+} from '../lib/draft';
+import { BUILT_IN_COLLATION_PROFILES, getProfileCardCount } from '../lib/collation';
+import { getCollationProfiles, saveCollationProfile, deleteCollationProfile } from '../lib/database';
+import { REMOVAL_STRATEGIES, getRemovalStrategy } from '../lib/removal';
+import { CollationEditor } from './CollationEditor';
+
+interface DraftSetupProps {
+  initialConfig: DraftConfig;
+  initialSeed?: string;
+  onStart: (config: DraftConfig, seed?: string) => void;
+  onCancel: () => void;
+}
+
+type NumericConfigKey = 'rounds' | 'packsPerRound' | 'packSize' | 'picksPerTurn' | 'removalsPerTurn';
+
+const UNIFORM_PROFILE_ID = 'uniform';
+
+const configFields: Array<{ key: NumericConfigKey; label: string }> = [
+  { key: 'rounds', label: 'Rounds' },
+  { key: 'packsPerRound', label: 'Packs per round' },
+  { key: 'packSize', label: 'Cards per pack' },
+  { key: 'picksPerTurn', label: 'Picks per turn' },
+  { key: 'removalsPerTurn', label: 'Removals per turn' },
+];
+
+const modeOptions: Array<{ mode: DraftMode; label: string; description: string }> = [
+  {
+    mode: 'shared',
+    label: 'Shared packs',
+    description: 'You pick from each pack in turn while cards vanish from the others.',
+  },
+  {
+    mode: 'pod',
+    label: 'Pass the pack',
+    description: 'Every seat opens a pack, takes a card and passes it on. Bots fill the other seats.',
+  },
+];
+
+const isSameConfig = (a: DraftConfig, b: DraftConfig) =>
+  (a.mode ?? 'shared') === (b.mode ?? 'shared') &&
+  configFields
+    .filter(({ key }) => (a.mode ?? 'shared') === 'shared' || key !== 'removalsPerTurn')
+    .every(({ key }) => a[key] === b[key]);
+
+export function DraftSetup({ initialConfig, initialSeed = '', onStart, onCancel }: DraftSetupProps) {
+  const [config, setConfig] = useState<DraftConfig>(initialConfig);
+  const [seed, setSeed] = useState(initialSeed);
+  const [customProfiles, setCustomProfiles] = useState<CollationProfile[]>([]);
+  const [editingProfile, setEditingProfile] = useState<CollationProfile | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    setCustomProfiles(await getCollationProfiles());
+  }, []);
+
+  useEffect(() => {
+    void loadProfiles();
+  }, [loadProfiles]);
+
+  const collation = config.collation ?? null;
+  const isPod = config.mode === 'pod';
+  const removalStrategy = getRemovalStrategy(config.removalStrategy);
+  const visibleFields = isPod
+    ? configFields
+        .filter(({ key }) => key !== 'removalsPerTurn')
+        .map(field => (field.key === 'packsPerRound' ? { ...field, label: 'Seats' } : field))
+    : configFields;
+  const isCustomProfile = !!collation && customProfiles.some(p => p.id === collation.id);
+  const profileOptions = [...BUILT_IN_COLLATION_PROFILES, ...customProfiles];
+
+  const errors = validateDraftConfig(config);
+  const activePreset = DRAFT_PRESETS.find(preset => isSameConfig(preset.config, config));
+  const turnsPerRound = errors.length === 0 ? getTurnsPerRound(config) : 0;
+  const totalPicks = errors.length === 0 ? getPicksPerRound(config) * config.rounds : 0;
+
+  const handleFieldChange = (key: NumericConfigKey, value: string) => {
+    const parsed = parseInt(value, 10);
+    setConfig(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : parsed }));
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const profile = profileOptions.find(p => p.id === id) ?? null;
+    setConfig(prev => ({ ...prev, collation: profile }));
+    setEditingProfile(null);
+  };
+
+  const handleEditProfile = () => {
+    if (!collation) return;
+    setEditingProfile(
+      isCustomProfile
+        ? collation
+        : { ...collation, id: `custom-${Date.now()}`, name: `${collation.name} (custom)` }
+    );
+  };
+
+  const handleSaveProfile = async (profile: CollationProfile) => {
+    try {
+      await saveCollationProfile(profile);
+      await loadProfiles();
+      setConfig(prev => ({ ...prev, collation: profile }));
+      setEditingProfile(null);
+    } catch (err) {
+      console.error('Failed to save collation profile:', err);
+      alert('Failed to save collation profile');
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!collation || !isCustomProfile) return;
+    if (!confirm(`Delete the "${collation.name}" profile?`)) return;
+    await deleteCollationProfile(collation.id);
+    await loadProfiles();
+    setConfig(prev => ({ ...prev, collation: null }));
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg space-y-6 max-w-3xl mx-auto">
+      <h2 className="text-2xl font-bold text-white">New Draft</h2>
+
+      <div>
+        <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Presets</h3>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {DRAFT_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => setConfig(prev => ({
+                mode: 'shared',
+                ...preset.config,
+                collation: prev.collation,
+                removalStrategy: prev.removalStrategy,
+              }))}
+              className={`text-left px-4 py-3 rounded-lg border-2 transition-colors ${
+                activePreset?.id === preset.id
+                  ? 'border-yellow-400 bg-yellow-400/10'
+                  : 'border-gray-600 hover:border-yellow-300'
+              }`}
+            >
+              <div className="font-semibold text-white">{preset.name}</div>
+              <div className="text-xs text-gray-400">{preset.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Mode</h3>
+        <div className="grid gap-3 sm:grid-cols-2">
+          {modeOptions.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setConfig(prev => ({ ...prev, mode: option.mode }))}
+              className={`text-left px-4 py-3 rounded-lg border-2 transition-colors ${
+                (config.mode ?? 'shared') === option.mode
+                  ? 'border-yellow-400 bg-yellow-400/10'
+                  : 'border-gray-600 hover:border-yellow-300'
+              }`}
+            >
+              <div className="font-semibold text-white">{option.label}</div>
+              <div className="text-xs text-gray-400">{option.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">
+          Settings — {activePreset ? activePreset.name : 'Custom'}
+        </h3>
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-5">
+          {visibleFields.map(({ key, label }) => (
+            <label key={key} className="block text-sm text-gray-300">
+              <span className="block mb-1">{label}</span>
+              <input
+                type="number"
+                min={0}
+                value={config[key]}
+                onChange={(e) => handleFieldChange(key, e.target.value)}
+                className="w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Pack Collation</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={collation?.id ?? UNIFORM_PROFILE_ID}
+            onChange={(e) => handleSelectProfile(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+          >
+            <option value={UNIFORM_PROFILE_ID}>Uniform (every card equally likely)</option>
+            {profileOptions.map(profile => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          {collation && (
+            <button
+              onClick={handleEditProfile}
+              className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+            >
+              {isCustomProfile ? 'Edit Profile' : 'Customise'}
+            </button>
+          )}
+          {isCustomProfile && (
+            <button
+              onClick={() => { void handleDeleteProfile(); }}
+              className="px-3 py-1 border border-red-500 rounded-lg text-sm text-red-300 hover:bg-red-500/10 transition-colors"
+            >
+              Delete Profile
+            </button>
+          )}
+        </div>
+        {collation && !editingProfile && (
+          <p className="text-xs text-gray-400">
+            {collation.slots.map(slot => `${slot.count} ${slot.name || 'cards'}`).join(' • ')}
+            {getProfileCardCount(collation) !== config.packSize &&
+              ` — fitted to ${config.packSize}-card packs (commons are trimmed or added first)`}
+          </p>
+        )}
+        {editingProfile && (
+          <CollationEditor
+            key={editingProfile.id}
+            profile={editingProfile}
+            onSave={handleSaveProfile}
+            onCancel={() => setEditingProfile(null)}
+          />
+        )}
+      </div>
+
+      {!isPod && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold text-gray-300 uppercase tracking-wide">Removal Strategy</h3>
+          <select
+            value={removalStrategy.id}
+            onChange={(e) => setConfig(prev => ({ ...prev, removalStrategy: e.target.value as RemovalStrategyId }))}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+          >
+            {REMOVAL_STRATEGIES.map(strategy => (
+              <option key={strategy.id} value={strategy.id}>
+                {strategy.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400">{removalStrategy.description}</p>
+        </div>
+      )}
+
+      <label className="block text-sm text-gray-300">
+        <span className="block text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Seed</span>
+        <input
+          type="text"
+          value={seed}
+          onChange={(e) => setSeed(e.target.value)}
+          placeholder="Leave blank for a random draft"
+          className="w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white font-mono focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+        />
+        <span className="block mt-1 text-xs text-gray-400">
+          The same seed and settings deal the same packs, and the same picks lead to the same removals.
+        </span>
+      </label>
+
+      {errors.length > 0 ? (
+        <div className="p-3 bg-red-900/50 border border-red-500 rounded-lg text-red-200 text-sm space-y-1">
+          {errors.map(error => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-300">
+          {turnsPerRound} turns per round • {totalPicks} picks in total
+        </p>
+      )}
+
+      <div className="flex gap-3 justify-end">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-transparent border-2 border-gray-500 text-gray-300 rounded-lg
+            hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-500
+            font-semibold transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onStart(config, seed.trim() || undefined)}
+          disabled={errors.length > 0}
+          className="px-6 py-2 bg-transparent border-2 border-green-500 text-green-500 rounded-lg
+            hover:bg-green-500/10 focus:ring-2 focus:ring-green-500
+            font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          Start Draft
+        </button>
+      </div>
+    </div>
+  );
+}
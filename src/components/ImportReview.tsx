@@ -0,0 +1,134 @@
+import { Card } from '../types';
+import { CardIndex, CardMatchStatus, DeckLineMatch, matchCardName, needsReview } from '../lib/cardMatching';
+
+export interface ImportReviewRow extends DeckLineMatch {
+  chosen: Card | null;    // card to import, null to skip the line
+  confirmed: boolean;     // the user picked or searched for this line's card
+}
+
+interface ImportReviewProps {
+  rows: ImportReviewRow[];
+  index: CardIndex;
+  onChange: (rows: ImportReviewRow[]) => void;
+}
+
+const STATUS_LABELS: Record<CardMatchStatus, { label: string; className: string }> = {
+  exact: { label: 'Exact', className: 'text-green-400' },
+  normalized: { label: 'Matched', className: 'text-green-400' },
+  fuzzy: { label: 'Check', className: 'text-yellow-300' },
+  ambiguous: { label: 'Choose', className: 'text-yellow-300' },
+  none: { label: 'No match', className: 'text-red-400' },
+};
+
+const cardKey = (card: Card) => `${card.fullName}|${card.color}`;
+
+/**
+ * Start reviewing: each line gets its best guess
+ */
+export function toReviewRows(lines: DeckLineMatch[]): ImportReviewRow[] {
+  return lines.map(line => ({ ...line, chosen: line.match.card, confirmed: false }));
+}
+
+/**
+ * Cards the review will import, each repeated by its line's count
+ */
+export function getReviewedCards(rows: ImportReviewRow[]): Card[] {
+  return rows.flatMap(row => (row.chosen ? Array.from({ length: row.count }, () => row.chosen as Card) : []));
+}
+
+export function ImportReview({ rows, index, onChange }: ImportReviewProps) {
+  const updateRow = (rowIndex: number, changes: Partial<ImportReviewRow>) => {
+    onChange(rows.map((row, idx) => (idx === rowIndex ? { ...row, ...changes } : row)));
+  };
+
+  const handleSearch = (rowIndex: number, text: string) => {
+    if (!text.trim()) return;
+    const match = matchCardName(index, text);
+    updateRow(rowIndex, { match, chosen: match.card, confirmed: true });
+  };
+
+  const toReview = rows.filter(row => !row.confirmed && needsReview(row.match)).length;
+  const skipped = rows.filter(row => !row.chosen).length;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-300">
+        {rows.length} lines • {getReviewedCards(rows).length} cards
+        {toReview > 0 && <span className="text-yellow-300"> • {toReview} to check</span>}
+        {skipped > 0 && <span className="text-gray-400"> • {skipped} skipped</span>}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-400 uppercase tracking-wide border-b border-gray-700">
+              <th className="py-2 pr-3">Count</th>
+              <th className="py-2 pr-3">Line</th>
+              <th className="py-2 pr-3">Status</th>
+              <th className="py-2 pr-3">Card</th>
+              <th className="py-2">Search</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIndex) => {
+              const status = STATUS_LABELS[row.match.status];
+              const options = row.match.suggestions.map(suggestion => suggestion.card);
+              if (row.chosen && !options.some(card => cardKey(card) === cardKey(row.chosen as Card))) {
+                options.unshift(row.chosen);
+              }
+              return (
+                <tr
+                  key={rowIndex}
+                  className={`border-b border-gray-700/50 ${!row.confirmed && needsReview(row.match) ? 'bg-yellow-500/5' : ''}`}
+                >
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min={1}
+                      value={row.count}
+                      onChange={(e) => updateRow(rowIndex, { count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className="w-16 px-2 py-1 rounded bg-gray-900 border border-gray-600 text-white"
+                    />
+                  </td>
+                  <td className="py-2 pr-3 text-gray-300">
+                    {row.fullName}
+                    {row.color && <span className="text-gray-500"> ({row.color})</span>}
+                  </td>
+                  <td className={`py-2 pr-3 whitespace-nowrap ${row.confirmed ? 'text-green-400' : status.className}`}>
+                    {row.confirmed ? 'Confirmed' : status.label}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <select
+                      value={row.chosen ? cardKey(row.chosen) : ''}
+                      onChange={(e) => updateRow(rowIndex, {
+                        chosen: options.find(card => cardKey(card) === e.target.value) ?? null,
+                        confirmed: true,
+                      })}
+                      className="w-full bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+                    >
+                      <option value="">Skip this line</option>
+                      {options.map(card => (
+                        <option key={cardKey(card)} value={cardKey(card)}>
+                          {card.fullName} ({card.color})
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="text"
+                      placeholder="Find another card, then Enter"
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSearch(rowIndex, e.currentTarget.value);
+                      }}
+                      className="w-full px-2 py-1 rounded bg-gray-900 border border-gray-600 text-white text-sm"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
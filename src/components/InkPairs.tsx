@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { Card, CardRatings } from '../types';
+import { getInkPairReports, PLAYABLE_GRADE } from '../lib/inkPairs';
+
+interface InkPairsProps {
+  cards: Card[];
+  ratings?: CardRatings;
+}
+
+export function InkPairs({ cards, ratings = {} }: InkPairsProps) {
+  const reports = useMemo(() => getInkPairReports(cards, ratings), [cards, ratings]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-400">
+        Every pair of inks this pool could be built in. Playables are cards graded {PLAYABLE_GRADE} or better;
+        curve is how much of an ideal 40-card curve they fill.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-400 uppercase tracking-wide border-b border-gray-700">
+              <th className="py-2 pr-3">#</th>
+              <th className="py-2 pr-3">Inks</th>
+              <th className="py-2 pr-3 text-right">Playables</th>
+              <th className="py-2 pr-3 text-right">Curve</th>
+              <th className="py-2 pr-3 text-right">Inkable</th>
+              <th className="py-2 pr-3 text-right">Removal</th>
+              <th className="py-2 pr-3 text-right">Evasive</th>
+              <th className="py-2">Top cards</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reports.map((report, idx) => (
+              <tr key={report.inks.join('/')} className="border-b border-gray-700/50 text-gray-300">
+                <td className="py-2 pr-3 text-gray-500">{idx + 1}</td>
+                <td className="py-2 pr-3 font-semibold text-white whitespace-nowrap">{report.inks.join(' / ')}</td>
+                <td className="py-2 pr-3 text-right">
+                  <span className="text-white">{report.playables}</span>
+                  <span className="text-gray-500"> / {report.cards}</span>
+                </td>
+                <td className="py-2 pr-3 text-right">{Math.round(report.curveCoverage * 100)}%</td>
+                <td className="py-2 pr-3 text-right">{report.inkable}</td>
+                <td className="py-2 pr-3 text-right">{report.removal}</td>
+                <td className="py-2 pr-3 text-right">{report.evasive}</td>
+                <td className="py-2 text-gray-400">
+                  {report.topCards.length === 0 ? '—' : report.topCards.map(card => card.fullName).join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useMemo } from 'react';
+import { DraftState } from '../types';
+import { readInkSignals, SignalTrend } from '../lib/signals';
+
+interface InkSignalsProps {
+  state: DraftState;
+}
+
+const trendLabel: Record<SignalTrend, { symbol: string; className: string; title: string }> = {
+  opening: { symbol: '▲', className: 'text-green-400', title: 'Opening up over the last few turns' },
+  closing: { symbol: '▼', className: 'text-red-400', title: 'Drying up over the last few turns' },
+  steady: { symbol: '•', className: 'text-gray-500', title: 'Steady' },
+};
+
+const formatScore = (score: number) => `${score > 0 ? '+' : ''}${score.toFixed(0)}`;
+
+const scoreClass = (score: number) =>
+  score >= 5 ? 'text-green-400' : score <= -5 ? 'text-red-400' : 'text-gray-300';
+
+export function InkSignals({ state }: InkSignalsProps) {
+  const signals = useMemo(() => readInkSignals(state), [state]);
+  const hasRemovals = state.rounds.some(round => round.packs.some(pack => pack.removedLog.length > 0));
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h3 className="text-lg font-semibold text-white mb-1">Ink Signals</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        How many fewer of each ink {state.config.mode === 'pod' ? 'the bots took' : 'the removals took'} than
+        the packs held, per 100 cards. Positive means the ink is flowing.
+      </p>
+
+      {!hasRemovals ? (
+        <p className="text-sm text-gray-500">No signals until the first cards are removed.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-400">
+              <th className="text-left font-semibold pb-1">Ink</th>
+              <th className="text-right font-semibold pb-1" title="Share of the cards still in this round's packs">Left</th>
+              <th className="text-right font-semibold pb-1" title="Share of the cards removed this round">Gone</th>
+              <th className="text-right font-semibold pb-1" title="Openness this round">Rnd</th>
+              <th className="text-right font-semibold pb-1" title="Openness across the draft">All</th>
+              <th className="pb-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {signals.map(signal => (
+              <tr
+                key={signal.ink}
+                className="border-t border-gray-700/50"
+                title={`By round: ${signal.byRound.map((score, idx) => `R${idx + 1} ${formatScore(score)}`).join(', ')}`}
+              >
+                <td className="py-1 text-white">{signal.ink}</td>
+                <td className="py-1 text-right text-gray-300">{Math.round(signal.remainingShare * 100)}%</td>
+                <td className="py-1 text-right text-gray-300">{Math.round(signal.removedShare * 100)}%</td>
+                <td className={`py-1 text-right font-mono ${scoreClass(signal.roundScore)}`}>{formatScore(signal.roundScore)}</td>
+                <td className={`py-1 text-right font-mono font-semibold ${scoreClass(signal.overallScore)}`}>
+                  {formatScore(signal.overallScore)}
+                </td>
+                <td className={`py-1 pl-2 text-center ${trendLabel[signal.trend].className}`} title={trendLabel[signal.trend].title}>
+                  {trendLabel[signal.trend].symbol}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
 import { useState } from 'react';
 import { Pack, Card } from '../types';
+import { PickAdvice, getRecommendedPick } from '../lib/advisor';
 
 interface PackViewProps {
   pack: Pack;
   isActive: boolean;
   onPickCard?: (cardIndex: number) => void;
   showCards: boolean;
+  advice?: PickAdvice[] | null; // pick advisor scores, one per card; omit for blind drafting
+  wheeled?: boolean[] | null;   // per card: was it already in the pack when I last passed it?
 }
 
-export function PackView({ pack, isActive, onPickCard, showCards }: PackViewProps) {
+export function PackView({ pack, isActive, onPickCard, showCards, advice, wheeled }: PackViewProps) {
   const [hoveredCard, setHoveredCard] = useState<Card | null>(null);
+  const recommended = advice ? getRecommendedPick(advice) : null;
 
   if (!showCards || !isActive) {
     return null;
@@ -25,6 +29,9 @@ export function PackView({ pack, isActive, onPickCard, showCards }: PackViewProp
             card={card}
             onPick={() => onPickCard?.(idx)}
             onHover={setHoveredCard}
+            advice={advice?.[idx]}
+            recommended={recommended?.index === idx}
+            wheeled={wheeled?.[idx] ?? false}
           />
         ))}
       </div>
@@ -47,9 +54,12 @@ interface CardTileProps {
   card: Card;
   onPick: () => void;
   onHover: (card: Card | null) => void;
+  advice?: PickAdvice;
+  recommended?: boolean;
+  wheeled?: boolean;
 }
 
-function CardTile({ card, onPick, onHover }: CardTileProps) {
+function CardTile({ card, onPick, onHover, advice, recommended = false, wheeled = false }: CardTileProps) {
   const imageUrl = card.images?.full;
   const rarityValue = card.rarity || 'unknown';
 
@@ -58,10 +68,11 @@ function CardTile({ card, onPick, onHover }: CardTileProps) {
       onClick={onPick}
       onMouseEnter={() => onHover(card)}
       onMouseLeave={() => onHover(null)}
-      className="bg-gray-900 rounded-lg overflow-hidden shadow-xl 
-        border-2 border-gray-700 hover:border-yellow-400 transition-all 
+      title={advice ? advice.reasons.join(' • ') : undefined}
+      className={`bg-gray-900 rounded-lg overflow-hidden shadow-xl 
+        border-2 ${recommended ? 'border-green-400 ring-2 ring-green-400' : 'border-gray-700'} hover:border-yellow-400 transition-all 
         hover:scale-105 hover:shadow-2xl group cursor-pointer relative
-        focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        focus:outline-none focus:ring-2 focus:ring-yellow-500`}
     >
       {imageUrl ? (
         <img
@@ -79,6 +90,38 @@ function CardTile({ card, onPick, onHover }: CardTileProps) {
       <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs px-2 py-1 rounded font-mono">
         rarity: {rarityValue}
       </div>
+      {advice && (
+        <div
+          className={`absolute bottom-2 left-2 text-xs px-2 py-1 rounded font-mono ${
+            recommended ? 'bg-green-500 text-gray-900 font-bold' : 'bg-black/80 text-gray-200'
+          }`}
+        >
+          {recommended ? '★ ' : ''}{advice.score.toFixed(1)}
+        </div>
+      )}
+      {advice && (
+        <div className="absolute inset-x-0 top-0 bg-black/85 text-left text-xs text-gray-100 p-2 space-y-0.5
+          opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
+        >
+          {recommended && <div className="text-green-400 font-bold">Advisor pick</div>}
+          {advice.reasons.map(reason => (
+            <div key={reason}>{reason}</div>
+          ))}
+        </div>
+      )}
+      {wheeled && (
+        <div
+          className="absolute top-2 left-2 bg-sky-400 text-gray-900 text-xs font-bold px-2 py-1 rounded"
+          title="You passed this card earlier in the round"
+        >
+          WHEELED
+        </div>
+      )}
+      {card.foil && (
+        <div className="absolute top-2 right-2 bg-gradient-to-r from-pink-400 via-yellow-300 to-sky-400 text-gray-900 text-xs font-bold px-2 py-1 rounded">
+          FOIL
+        </div>
+      )}
     </button>
   );
 }
@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import { Card } from '../types';
+import { DeckStats } from './DeckStats';
 
 interface PickedCardsProps {
   picks: Card[];
   title?: string;
+  initialShowStats?: boolean;
 }
 
 // Color mapping for Lorcana colors
@@ -19,8 +21,9 @@ const getColorStyles = (color: string) => {
   return colorMap[color] || 'bg-gray-500 hover:bg-gray-600 border-gray-600';
 };
 
-export function PickedCards({ picks, title = 'My Picks' }: PickedCardsProps) {
+export function PickedCards({ picks, title = 'My Picks', initialShowStats = false }: PickedCardsProps) {
   const [hoveredCard, setHoveredCard] = useState<Card | null>(null);
+  const [showStats, setShowStats] = useState(initialShowStats);
 
   // Group cards by cost
   const cardsByCost: Record<number, Card[]> = {};
@@ -58,9 +61,25 @@ export function PickedCards({ picks, title = 'My Picks' }: PickedCardsProps) {
 
   return (
     <div className="bg-gray-800 p-6 rounded-lg">
-      <h3 className="text-2xl font-bold text-white mb-4">
-        {title} ({picks.length} cards)
-      </h3>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="text-2xl font-bold text-white">
+          {title} ({picks.length} cards)
+        </h3>
+        {picks.length > 0 && (
+          <button
+            onClick={() => setShowStats(!showStats)}
+            className="px-3 py-1 border border-gray-600 rounded-lg text-sm text-gray-200 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+          >
+            {showStats ? 'Hide Stats' : 'Show Stats'}
+          </button>
+        )}
+      </div>
+
+      {showStats && (
+        <div className="mb-6">
+          <DeckStats cards={picks} />
+        </div>
+      )}
       
       {/* Organize by cost in columns, max 4 per row */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
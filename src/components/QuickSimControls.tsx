@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { DraftState } from '../types';
+import { getTurnsPerRound } from '../lib/draft';
+import { AUTOPICK_POLICIES, AutopickPolicyId, AutoDraftStop, getAutopickPolicy } from '../lib/autopick';
+
+interface QuickSimControlsProps {
+  state: DraftState;
+  onRun: (policyId: AutopickPolicyId, stop?: AutoDraftStop) => void;
+}
+
+export function QuickSimControls({ state, onRun }: QuickSimControlsProps) {
+  const [policyId, setPolicyId] = useState<AutopickPolicyId>('highest-rated');
+  const [stopEnabled, setStopEnabled] = useState(false);
+  const [stopRound, setStopRound] = useState(state.config.rounds);
+  const [stopTurn, setStopTurn] = useState(1);
+
+  const turnsPerRound = getTurnsPerRound(state.config);
+  const stop: AutoDraftStop = { round: stopRound, turn: stopTurn };
+  const stopIsAhead = stop.round > state.currentRound ||
+    (stop.round === state.currentRound && stop.turn > state.currentTurn);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+      <select
+        value={policyId}
+        onChange={(e) => setPolicyId(e.target.value as AutopickPolicyId)}
+        title={getAutopickPolicy(policyId).description}
+        className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      >
+        {AUTOPICK_POLICIES.map(policy => (
+          <option key={policy.id} value={policy.id}>{policy.name}</option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-2 text-gray-300">
+        <input
+          type="checkbox"
+          checked={stopEnabled}
+          onChange={(e) => setStopEnabled(e.target.checked)}
+          className="accent-purple-500"
+        />
+        Stop at round
+      </label>
+      <input
+        type="number"
+        min={1}
+        max={state.config.rounds}
+        value={stopRound}
+        disabled={!stopEnabled}
+        onChange={(e) => setStopRound(Math.max(1, Math.min(state.config.rounds, parseInt(e.target.value, 10) || 1)))}
+        className="w-16 px-2 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white disabled:opacity-40"
+      />
+      <span className="text-gray-300">turn</span>
+      <input
+        type="number"
+        min={1}
+        max={turnsPerRound}
+        value={stopTurn}
+        disabled={!stopEnabled}
+        onChange={(e) => setStopTurn(Math.max(1, Math.min(turnsPerRound, parseInt(e.target.value, 10) || 1)))}
+        className="w-16 px-2 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white disabled:opacity-40"
+      />
+
+      <button
+        onClick={() => onRun(policyId, stopEnabled ? stop : undefined)}
+        disabled={stopEnabled && !stopIsAhead}
+        className="px-4 py-2 bg-transparent border-2 border-purple-500 text-purple-500 rounded-lg
+          hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-500
+          font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        title={stopEnabled && !stopIsAhead
+          ? 'The draft is already past that point'
+          : 'Dev: Auto-draft with the chosen policy'}
+      >
+        Quick Sim
+      </button>
+    </div>
+  );
+}
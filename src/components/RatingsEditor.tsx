@@ -0,0 +1,287 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Card, CardRating } from '../types';
+import { getCardRatings, saveCardRatings, deleteCardRating } from '../lib/database';
+import {
+  RATING_TIERS,
+  exportRatingsCsv,
+  exportRatingsJson,
+  getRatingTier,
+  getSetCode,
+  parseRatingsImport,
+} from '../lib/ratings';
+import { estimateCardValue } from '../lib/cardValue';
+import { getCardKey } from '../lib/cardUtils';
+import { INKS } from '../lib/inks';
+import { downloadText } from './DeckExport';
+
+interface RatingsEditorProps {
+  cards: Card[];
+  onRatingsChanged: (ratings: CardRating[]) => void;
+}
+
+const GRADE_OPTIONS = [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+
+export function RatingsEditor({ cards, onRatingsChanged }: RatingsEditorProps) {
+  const setCode = useMemo(() => getSetCode(cards), [cards]);
+  const [ratings, setRatings] = useState<CardRating[]>([]);
+  const [search, setSearch] = useState('');
+  const [inkFilter, setInkFilter] = useState('');
+  const [status, setStatus] = useState<{ tone: 'success' | 'error'; message: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const ratingsByKey = useMemo(
+    () => new Map(ratings.map(rating => [getCardKey(rating.cardId), rating] as [string, CardRating])),
+    [ratings]
+  );
+
+  const loadRatings = useCallback(async () => {
+    const loaded = await getCardRatings(setCode);
+    setRatings(loaded);
+    onRatingsChanged(loaded);
+  }, [setCode, onRatingsChanged]);
+
+  useEffect(() => {
+    void loadRatings();
+  }, [loadRatings]);
+
+  const saveRating = async (card: Card, changes: Partial<CardRating>) => {
+    const existing = ratingsByKey.get(getCardKey(card.id));
+    const rating: CardRating = {
+      cardId: card.id,
+      grade: existing?.grade ?? estimateCardValue(card),
+      notes: existing?.notes ?? '',
+      ...changes,
+    };
+    try {
+      await saveCardRatings(setCode, [rating]);
+      await loadRatings();
+    } catch (err) {
+      console.error('Failed to save rating:', err);
+      setStatus({ tone: 'error', message: 'Failed to save rating' });
+    }
+  };
+
+  const clearRating = async (card: Card) => {
+    await deleteCardRating(setCode, card.id);
+    await loadRatings();
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { ratings: imported, problems } = parseRatingsImport(await file.text(), cards);
+      if (imported.length === 0) {
+        setStatus({ tone: 'error', message: `No ratings imported. ${problems.slice(0, 3).join('; ')}` });
+        return;
+      }
+      await saveCardRatings(setCode, imported);
+      await loadRatings();
+      setStatus({
+        tone: 'success',
+        message: `Imported ${imported.length} rating${imported.length === 1 ? '' : 's'}` +
+          (problems.length > 0 ? ` — skipped ${problems.length}: ${problems.slice(0, 3).join('; ')}` : ''),
+      });
+    } catch (err) {
+      console.error('Failed to import ratings:', err);
+      setStatus({ tone: 'error', message: `Failed to import ratings: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  };
+
+  const tierRows = useMemo(() => RATING_TIERS.map(tier => ({
+    tier,
+    cards: cards
+      .filter(card => {
+        const rating = ratingsByKey.get(getCardKey(card.id));
+        return rating && getRatingTier(rating.grade).label === tier.label;
+      })
+      .sort((a, b) => ratingsByKey.get(getCardKey(b.id))!.grade - ratingsByKey.get(getCardKey(a.id))!.grade),
+  })), [cards, ratingsByKey]);
+
+  const visibleCards = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return cards
+      .filter(card => !inkFilter || card.color === inkFilter)
+      .filter(card => !query || card.fullName.toLowerCase().includes(query))
+      .sort((a, b) => a.color.localeCompare(b.color) || (a.cost ?? 0) - (b.cost ?? 0) || a.fullName.localeCompare(b.fullName));
+  }, [cards, search, inkFilter]);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Card Ratings — Set {setCode}</h2>
+            <p className="text-sm text-gray-400">
+              {ratings.length} of {cards.length} cards rated. Unrated cards use an estimate from rarity and keywords.
+              New drafts, bots, removals, the pick advisor and Quick Sim all read these grades.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={(e) => { void handleImportFile(e); }}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 bg-transparent border-2 border-blue-500 text-blue-500 rounded-lg
+                hover:bg-blue-500/10 focus:ring-2 focus:ring-blue-500
+                font-semibold transition-colors"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => downloadText(`lorcana-ratings-${setCode}.json`, exportRatingsJson(setCode, ratings, cards), 'application/json')}
+              disabled={ratings.length === 0}
+              className="px-4 py-2 bg-transparent border-2 border-purple-500 text-purple-500 rounded-lg
+                hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-500
+                font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => downloadText(`lorcana-ratings-${setCode}.csv`, exportRatingsCsv(ratings, cards), 'text/csv')}
+              disabled={ratings.length === 0}
+              className="px-4 py-2 bg-transparent border-2 border-purple-500 text-purple-500 rounded-lg
+                hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-500
+                font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        {status && (
+          <div
+            className={`p-3 rounded-lg text-sm border ${
+              status.tone === 'success'
+                ? 'bg-green-900/40 border-green-500 text-green-200'
+                : 'bg-red-900/50 border-red-500 text-red-200'
+            }`}
+          >
+            {status.message}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {tierRows.map(({ tier, cards: tierCards }) => (
+            <div key={tier.label} className="flex items-start gap-3">
+              <div className="w-10 shrink-0 text-center text-lg font-bold text-yellow-400">{tier.label}</div>
+              <div className="flex flex-wrap gap-1 min-h-[1.75rem]">
+                {tierCards.length === 0 && <span className="text-sm text-gray-600">—</span>}
+                {tierCards.map(card => (
+                  <span
+                    key={card.id}
+                    className="px-2 py-0.5 rounded bg-gray-900 border border-gray-700 text-xs text-gray-200"
+                    title={ratingsByKey.get(getCardKey(card.id))?.notes || undefined}
+                  >
+                    {card.fullName}{' '}
+                    <span className="text-gray-500">{ratingsByKey.get(getCardKey(card.id))!.grade}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search cards"
+            className="flex-1 min-w-[12rem] px-3 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+          />
+          <select
+            value={inkFilter}
+            onChange={(e) => setInkFilter(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+          >
+            <option value="">All inks</option>
+            {INKS.map(ink => (
+              <option key={ink} value={ink}>{ink}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-gray-700 text-gray-300">
+                <th className="px-2 py-2 font-semibold">Card</th>
+                <th className="px-2 py-2 font-semibold">Ink</th>
+                <th className="px-2 py-2 font-semibold">Cost</th>
+                <th className="px-2 py-2 font-semibold">Rarity</th>
+                <th className="px-2 py-2 font-semibold">Grade</th>
+                <th className="px-2 py-2 font-semibold">Notes</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleCards.map(card => {
+                const rating = ratingsByKey.get(getCardKey(card.id));
+                return (
+                  <tr key={card.id} className="border-b border-gray-700/50">
+                    <td className="px-2 py-2 text-white">{card.fullName}</td>
+                    <td className="px-2 py-2 text-gray-300">{card.color}</td>
+                    <td className="px-2 py-2 text-gray-300">{card.cost ?? '—'}</td>
+                    <td className="px-2 py-2 text-gray-300">{card.rarity ?? '—'}</td>
+                    <td className="px-2 py-2">
+                      <select
+                        value={rating ? String(rating.grade) : ''}
+                        onChange={(e) => {
+                          if (e.target.value === '') {
+                            void clearRating(card);
+                          } else {
+                            void saveRating(card, { grade: parseFloat(e.target.value) });
+                          }
+                        }}
+                        className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-white"
+                      >
+                        <option value="">est. {estimateCardValue(card).toFixed(1)}</option>
+                        {GRADE_OPTIONS.map(grade => (
+                          <option key={grade} value={String(grade)}>{grade}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        key={`${card.id}-${rating?.notes ?? ''}`}
+                        type="text"
+                        defaultValue={rating?.notes ?? ''}
+                        onBlur={(e) => {
+                          if (e.target.value !== (rating?.notes ?? '')) {
+                            void saveRating(card, { notes: e.target.value });
+                          }
+                        }}
+                        placeholder="Notes"
+                        className="w-full min-w-[10rem] px-2 py-1 rounded bg-gray-900 border border-gray-600 text-white"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      {rating && (
+                        <button
+                          onClick={() => { void clearRating(card); }}
+                          className="px-2 py-1 rounded-md border border-red-500 text-xs text-red-300 hover:bg-red-500/10 transition-colors"
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 import { useState } from 'react';
 import { DraftState } from '../types';
-import { getTally, generateCopyTextWithoutColor } from '../lib/draft';
+import { getTally, describeDraftFormat } from '../lib/draft';
 import { saveDraft } from '../lib/database';
+import { BotPools } from './BotPools';
+import { DeckExport } from './DeckExport';
+import { DeckStats } from './DeckStats';
+import { InkPairs } from './InkPairs';
+import { RoundRemovals } from './RoundRemovals';
+import { RoundSummaryView } from './RoundSummaryView';
 
 interface ResultsTableProps {
   draftState: DraftState;
@@ -10,23 +16,10 @@ interface ResultsTableProps {
 }
 
 export function ResultsTable({ draftState, onNewDraft, onDeckSaved }: ResultsTableProps) {
-  const [copied, setCopied] = useState(false);
   const [saving, setSaving] = useState(false);
   const picks = draftState.picks;
   const tally = getTally(picks);
 
-  const handleCopyAll = async () => {
-    const text = generateCopyTextWithoutColor(picks);
-    try {
-      await navigator.clipboard.writeText(text);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch (err) {
-      console.error('Failed to copy:', err);
-      alert('Failed to copy to clipboard');
-    }
-  };
-
   const handleSaveDraft = async () => {
     const draftName = prompt('Enter a name for this draft:');
     if (!draftName || !draftName.trim()) return;
@@ -50,8 +43,16 @@ export function ResultsTable({ draftState, onNewDraft, onDeckSaved }: ResultsTab
         <h2 className="text-3xl font-bold text-white mb-4 text-center">
           Draft Complete!
         </h2>
+        <p className="text-gray-400 text-center text-sm mb-1">
+          {describeDraftFormat(draftState.config)}
+        </p>
         <p className="text-gray-300 text-center mb-6">
           Total cards picked: <span className="font-bold text-white">{picks.length}</span>
+          {draftState.seed && (
+            <>
+              {' '}• Seed: <span className="font-mono text-white">{draftState.seed}</span>
+            </>
+          )}
         </p>
 
         <div className="overflow-x-auto">
@@ -85,14 +86,6 @@ export function ResultsTable({ draftState, onNewDraft, onDeckSaved }: ResultsTab
           >
             {saving ? 'Saving...' : 'Save Draft'}
           </button>
-          <button
-            onClick={handleCopyAll}
-            className="px-6 py-3 bg-transparent border-2 border-green-500 text-green-500 rounded-lg 
-              hover:bg-green-500/10 focus:ring-2 focus:ring-green-500 
-              font-semibold transition-colors"
-          >
-            {copied ? 'Copied! ✓' : 'Copy All Lines'}
-          </button>
           <button
             onClick={onNewDraft}
             className="px-6 py-3 bg-transparent border-2 border-blue-500 text-blue-500 rounded-lg 
@@ -102,7 +95,34 @@ export function ResultsTable({ draftState, onNewDraft, onDeckSaved }: ResultsTab
             New Draft
           </button>
         </div>
+
+        <div className="mt-4 flex justify-center">
+          <DeckExport deckName={draftState.seed ? `Draft ${draftState.seed}` : 'Draft Pool'} cards={picks} />
+        </div>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg">
+        <h3 className="text-2xl font-bold text-white mb-4">Pool Stats</h3>
+        <DeckStats cards={picks} />
       </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg">
+        <h3 className="text-2xl font-bold text-white mb-2">Ink Pairs</h3>
+        <InkPairs cards={picks} ratings={draftState.ratings} />
+      </div>
+
+      {draftState.roundSummaries.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-2xl font-bold text-white">Round by Round</h3>
+          {draftState.roundSummaries.map(summary => (
+            <RoundSummaryView key={summary.round} summary={summary} totalRounds={draftState.config.rounds} />
+          ))}
+        </div>
+      )}
+
+      <BotPools bots={draftState.bots} ratings={draftState.ratings} />
+
+      <RoundRemovals rounds={draftState.rounds} mode={draftState.config.mode} />
     </div>
   );
 }
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { DraftMode, RoundState } from '../types';
+import { INKS } from '../lib/inks';
+
+interface RoundRemovalsProps {
+  rounds: RoundState[];
+  mode?: DraftMode;
+  initialRound?: number;   // defaults to the latest round
+}
+
+export function RoundRemovals({ rounds, mode = 'shared', initialRound }: RoundRemovalsProps) {
+  const [selectedRound, setSelectedRound] = useState(initialRound ?? rounds.length);
+
+  const round = rounds.find(r => r.roundNumber === selectedRound) ?? rounds[rounds.length - 1];
+  if (!round) return null;
+
+  const removals = round.packs.flatMap((pack, packIndex) =>
+    pack.removedLog.map(record => ({ packIndex, record }))
+  );
+  const inkCounts = INKS
+    .map(ink => ({ ink, count: removals.filter(({ record }) => record.card.color === ink).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-white">
+          {mode === 'pod' ? 'Taken by Bots' : 'Removed from Other Packs'} — Round {round.roundNumber}
+        </h3>
+        {rounds.length > 1 && (
+          <div className="flex flex-wrap gap-1">
+            {rounds.map(r => (
+              <button
+                key={r.roundNumber}
+                onClick={() => setSelectedRound(r.roundNumber)}
+                className={`px-2 py-0.5 rounded text-xs border ${
+                  r.roundNumber === round.roundNumber
+                    ? 'border-yellow-400 text-yellow-300'
+                    : 'border-gray-600 text-gray-400 hover:border-gray-400'
+                }`}
+              >
+                R{r.roundNumber}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {removals.length === 0 ? (
+        <p className="text-gray-500 text-sm">Nothing removed yet this round.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-3">
+            {removals.length} card{removals.length === 1 ? '' : 's'} gone:{' '}
+            {inkCounts.map(({ ink, count }) => `${count} ${ink}`).join(', ')}
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3 max-h-80 overflow-y-auto">
+            {round.packs.map((pack, packIndex) => pack.removedLog.length > 0 && (
+              <div key={pack.id} className="bg-gray-900/60 border border-gray-700 rounded-lg p-2">
+                <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-1">
+                  Pack #{packIndex + 1}
+                </h4>
+                <ul className="space-y-0.5 text-xs">
+                  {pack.removedLog.map((record, idx) => (
+                    <li key={idx} className="text-gray-300">
+                      <span className="text-gray-500">T{record.turn}:</span>{' '}
+                      <span className="text-white">{record.card.fullName}</span>{' '}
+                      <span className="text-gray-400">({record.card.color})</span>{' '}
+                      <span className="text-gray-500">— {record.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { RoundSummary } from '../types';
+import { getTally } from '../lib/draft';
+import { INKS } from '../lib/inks';
+
+interface RoundSummaryViewProps {
+  summary: RoundSummary;
+  totalRounds: number;
+  onContinue?: () => void;    // shown as the interstitial between rounds when set
+}
+
+const COST_BUCKETS = [1, 2, 3, 4, 5, 6, 7];
+
+export function RoundSummaryView({ summary, totalRounds, onContinue }: RoundSummaryViewProps) {
+  const poolSize = INKS.reduce((sum, ink) => sum + (summary.inkCounts[ink] ?? 0), 0);
+  const maxCost = Math.max(1, ...COST_BUCKETS.map(bucket => summary.costCounts[bucket] ?? 0));
+  const isLastRound = summary.round >= totalRounds;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className={`${onContinue ? 'text-2xl' : 'text-xl'} font-bold text-white`}>
+            Round {summary.round} of {totalRounds}{onContinue ? ' complete' : ''}
+          </h3>
+          <p className="text-sm text-gray-400">
+            {summary.picks.length} picked this round • {poolSize} in your pool
+          </p>
+        </div>
+        {onContinue && (
+          <button
+            onClick={onContinue}
+            className="px-6 py-3 bg-transparent border-2 border-green-500 text-green-500 rounded-lg
+              hover:bg-green-500/10 focus:ring-2 focus:ring-green-500
+              font-semibold transition-colors"
+          >
+            {isLastRound ? 'See Results' : `Continue to Round ${summary.round + 1}`}
+          </button>
+        )}
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <div>
+          <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Picked this round</h4>
+          <ul className="space-y-0.5 text-sm">
+            {getTally(summary.picks).map(entry => (
+              <li key={`${entry.fullName}|${entry.color}`} className="text-gray-300">
+                {entry.count > 1 && <span className="text-white font-semibold">{entry.count}× </span>}
+                {entry.fullName} <span className="text-gray-500">({entry.color})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Pool by ink</h4>
+            <ul className="space-y-0.5 text-sm">
+              {INKS
+                .filter(ink => (summary.inkCounts[ink] ?? 0) > 0)
+                .sort((a, b) => summary.inkCounts[b] - summary.inkCounts[a])
+                .map(ink => (
+                  <li key={ink} className="flex justify-between text-gray-300">
+                    <span>{ink}</span>
+                    <span className="text-white">{summary.inkCounts[ink]}</span>
+                  </li>
+                ))}
+            </ul>
+          </div>
+          <div>
+            <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Pool by cost</h4>
+            <div className="flex items-end gap-1 h-20">
+              {COST_BUCKETS.map(bucket => {
+                const count = summary.costCounts[bucket] ?? 0;
+                return (
+                  <div key={bucket} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <span className="text-xs text-gray-400">{count}</span>
+                    <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(count / maxCost) * 100}%` }} />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {COST_BUCKETS.map(bucket => (
+                <span key={bucket} className="flex-1 text-center text-xs text-gray-500">
+                  {bucket === 7 ? '7+' : bucket}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-gray-300 uppercase tracking-wide mb-2">Best cards lost</h4>
+          {summary.bestLost.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing was removed.</p>
+          ) : (
+            <ul className="space-y-0.5 text-sm">
+              {summary.bestLost.map((record, idx) => (
+                <li key={idx} className="text-gray-300" title={record.reason}>
+                  {record.card.fullName} <span className="text-gray-500">({record.card.color}, T{record.turn})</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,15 +15,27 @@ import {
   updateDeckName,
 } from '../lib/database';
 import { Card, DraftState } from '../types';
-import { generateCopyTextWithoutColor } from '../lib/draft';
+import { DEFAULT_DRAFT_CONFIG } from '../lib/draft';
 import { PickedCards } from './PickedCards';
+import { DraftReplay } from './DraftReplay';
+import { AutoBuilds } from './AutoBuilds';
+import { InkPairs } from './InkPairs';
+import { DeckHistory } from './DeckHistory';
+import { ImportReview, ImportReviewRow, getReviewedCards, toReviewRows } from './ImportReview';
+import { DeckExport, DeckCodecSelect, copyDeck, downloadDeck, useDeckCodecChoice } from './DeckExport';
+import { DeckLegality, confirmDeckSave } from './DeckLegality';
+import { DeckFormatId, getDeckFormat, validateDeck } from '../lib/deckValidation';
 import { resolveCardType, matchesFilters, getSortComparator, __TYPE_ORDER } from '../lib/deckUtils';
+import { DeckBuild } from '../lib/deckBuilder';
+import { buildCardIndex, matchDeckLines } from '../lib/cardMatching';
+import { DECK_LIST_FORMATS, ParsedDeckList, parseDeckList } from '../lib/deckParsers';
 
 interface SavedDecksProps {
   masterCards: Card[] | null;
+  allCards: Card[] | null;    // every printing, for matching imported ids
 }
 
-export function SavedDecks({ masterCards }: SavedDecksProps) {
+export function SavedDecks({ masterCards, allCards }: SavedDecksProps) {
   const [drafts, setDrafts] = useState<SavedDraft[]>([]);
   const [selectedDraft, setSelectedDraft] = useState<SavedDraft | null>(null);
   const [loading, setLoading] = useState(true);
@@ -31,6 +43,10 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
   const [importText, setImportText] = useState('');
   const [importing, setImporting] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importedList, setImportedList] = useState<ParsedDeckList | null>(null);
+  const [reviewRows, setReviewRows] = useState<ImportReviewRow[] | null>(null);
+  const [importTargetId, setImportTargetId] = useState<number | null>(null);   // null = new draft
+  const cardIndex = useMemo(() => (allCards ? buildCardIndex(allCards) : null), [allCards]);
   const [editingDraftId, setEditingDraftId] = useState<number | null>(null);
   const [editingName, setEditingName] = useState('');
   const [exporting, setExporting] = useState(false);
@@ -45,6 +61,8 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
   const [editingDeckId, setEditingDeckId] = useState<number | null>(null);
   const [editingDeckName, setEditingDeckName] = useState('');
   const [editingDeckCards, setEditingDeckCards] = useState<SavedDeck | null>(null);
+  const [historyDeck, setHistoryDeck] = useState<SavedDeck | null>(null);
+  const [codecId, setCodecId] = useDeckCodecChoice();
 
   const regroupDecks = useCallback((decks: SavedDeck[], draftList: SavedDraft[]) => {
     const validDraftIds = new Set(draftList.map(d => d.id));
@@ -169,20 +187,16 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
   };
 
   const handleCopySavedDeck = useCallback(async (deck: SavedDeck) => {
-    try {
-      const parsed = JSON.parse(deck.cards_json) as Card[];
-      const text = generateCopyTextWithoutColor(parsed);
-      await navigator.clipboard.writeText(text);
-      if (copyDeckTimeoutRef.current) {
-        window.clearTimeout(copyDeckTimeoutRef.current);
-      }
-      setCopiedDeckId(deck.id);
-      copyDeckTimeoutRef.current = window.setTimeout(() => setCopiedDeckId(null), 2000);
-    } catch (err) {
-      console.error('Failed to copy saved deck:', err);
+    if (!(await copyDeck(codecId, deck.name, deck.cards))) {
       alert('Failed to copy deck to clipboard');
+      return;
     }
-  }, []);
+    if (copyDeckTimeoutRef.current) {
+      window.clearTimeout(copyDeckTimeoutRef.current);
+    }
+    setCopiedDeckId(deck.id);
+    copyDeckTimeoutRef.current = window.setTimeout(() => setCopiedDeckId(null), 2000);
+  }, [codecId]);
 
   const handleStartEditDeckName = useCallback((deck: SavedDeck) => {
     setEditingDeckId(deck.id);
@@ -218,58 +232,42 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
     setEditingDeckCards(null);
   }, []);
 
-  const parseDeckText = (text: string): { count: number; fullName: string; color: string | null }[] => {
-    const lines = text.trim().split('\n').filter(line => line.trim());
-    const parsed: { count: number; fullName: string; color: string | null }[] = [];
-
-    for (const line of lines) {
-      // Try new format first: "3 Cinderella - Dream Come True" (no color, no first dash)
-      const newFormatMatch = line.match(/^(\d+)\s+(.+)$/);
-      if (newFormatMatch) {
-        const count = parseInt(newFormatMatch[1], 10);
-        const fullName = newFormatMatch[2].trim();
-        if (!isNaN(count) && count > 0 && fullName) {
-          parsed.push({ count, fullName, color: null });
-          continue;
-        }
-      }
+  const resetImport = () => {
+    setImportText('');
+    setImportedList(null);
+    setReviewRows(null);
+    setShowImport(false);
+  };
 
-      // Try old format: "3 - Cinderella - Dream Come True - Sapphire"
-      const parts = line.split(' - ');
-      if (parts.length >= 3) {
-        const count = parseInt(parts[0].trim(), 10);
-        if (isNaN(count) || count <= 0) continue;
-
-        // If last part looks like a color, use old format
-        const lastPart = parts[parts.length - 1].trim();
-        const colors = ['Amber', 'Amethyst', 'Emerald', 'Ruby', 'Sapphire', 'Steel'];
-        if (colors.includes(lastPart)) {
-          const color = lastPart;
-          const fullName = parts.slice(1, -1).join(' - ').trim();
-          if (fullName && color) {
-            parsed.push({ count, fullName, color });
-            continue;
-          }
-        }
-      }
+  const handleImportIntoDraft = async (draft: SavedDraft, cards: Card[]) => {
+    const notInPool = countCardsNotInPool(cards, draft.draft_state.picks);
+    if (notInPool > 0 && !confirm(`${notInPool} of these cards aren't in ${draft.name}'s pool. Save the deck anyway?`)) {
+      return;
+    }
 
-      // Try format without color: "3 - Cinderella - Dream Come True"
-      if (parts.length >= 2) {
-        const count = parseInt(parts[0].trim(), 10);
-        if (!isNaN(count) && count > 0) {
-          const fullName = parts.slice(1).join(' - ').trim();
-          if (fullName) {
-            parsed.push({ count, fullName, color: null });
-          }
-        }
-      }
+    const deckName = prompt('Enter a name for this deck:', `${draft.name} Import`);
+    if (!deckName || !deckName.trim()) {
+      return;
     }
 
-    return parsed;
+    setImporting(true);
+    setImportError(null);
+    try {
+      await saveDeck(deckName.trim(), cards, draft.id);
+      alert(`Deck saved to ${draft.name} with ${cards.length} cards!`);
+      resetImport();
+      await refreshDraftsAndDecks();
+    } catch (err) {
+      console.error('Failed to import deck:', err);
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setImportError(`Failed to save deck: ${errorMessage}`);
+    } finally {
+      setImporting(false);
+    }
   };
 
-  const handleImportDeck = async () => {
-    if (!masterCards || masterCards.length === 0) {
+  const handleImportDeck = () => {
+    if (!cardIndex || cardIndex.cards.length === 0) {
       setImportError('Card data not loaded. Please wait for cards to load.');
       return;
     }
@@ -279,86 +277,73 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
       return;
     }
 
-    setImporting(true);
-    setImportError(null);
-
+    let parsed: ParsedDeckList;
     try {
-      const parsed = parseDeckText(importText);
-      if (parsed.length === 0) {
-        setImportError('No valid cards found in the text. Format: "3 Cinderella - Dream Come True" or "3 - Cinderella - Dream Come True - Sapphire"');
-        setImporting(false);
-        return;
-      }
-
-      console.log('Parsed cards:', parsed.length, parsed.slice(0, 3));
-
-      // Match cards against masterCards
-      const cards: Card[] = [];
-      const unmatched: string[] = [];
+      parsed = parseDeckList(importText);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setImportError(`Could not read the deck list: ${errorMessage}`);
+      return;
+    }
+    if (parsed.lines.length === 0) {
+      setImportError(`No cards found in the text (read as ${parsed.format.name}).`);
+      return;
+    }
 
-      for (const { count, fullName, color } of parsed) {
-        let matchedCard: Card | undefined;
+    setImportError(null);
+    setImportedList(parsed);
+    setReviewRows(toReviewRows(matchDeckLines(cardIndex, parsed.lines)));
+  };
 
-        if (color) {
-          // Old format with color - match by name and color
-          matchedCard = masterCards.find(
-            card => card.fullName === fullName && card.color === color
-          );
-        } else {
-          // New format without color - match by name only (take first match)
-          matchedCard = masterCards.find(card => card.fullName === fullName);
-        }
+  const handleConfirmImport = async () => {
+    if (!masterCards || !reviewRows) return;
 
-        if (matchedCard) {
-          // Add the card count times
-          for (let i = 0; i < count; i++) {
-            cards.push(matchedCard);
-          }
-        } else {
-          unmatched.push(`${count}× ${fullName}${color ? ` - ${color}` : ''}`);
-        }
-      }
+    const cards = getReviewedCards(reviewRows);
+    if (cards.length === 0) {
+      setImportError('No cards to import. Pick a card for at least one line.');
+      return;
+    }
 
-      console.log('Matched cards:', cards.length, 'Unmatched:', unmatched.length);
+    const targetDraft = drafts.find(draft => draft.id === importTargetId) ?? null;
+    if (targetDraft) {
+      await handleImportIntoDraft(targetDraft, cards);
+      return;
+    }
 
-      if (cards.length === 0) {
-        setImportError(`No cards matched. Found ${parsed.length} card entries but none matched. Please check card names.`);
-        setImporting(false);
-        return;
-      }
+    // Prompt for draft name
+    const draftName = prompt('Enter a name for this draft:');
+    if (!draftName || !draftName.trim()) {
+      return;
+    }
 
-      // Prompt for draft name
-      const draftName = prompt('Enter a name for this draft:');
-      if (!draftName || !draftName.trim()) {
-        setImporting(false);
-        return;
-      }
+    setImporting(true);
+    setImportError(null);
 
+    try {
       // Create a DraftState from the imported cards
       // We'll create a minimal draft state with the picks
       const draftState: DraftState = {
-        masterCards: masterCards,
+        config: DEFAULT_DRAFT_CONFIG,
+        seed: '',
+        dealtPacks: [],
         rounds: [],
         currentRound: 6,
         currentTurn: 13,
+        picksThisTurn: 0,
         picks: cards,
+        bots: [],
+        ratings: {},
         log: [],
+        roundSummaries: [],
         isComplete: true,
-        undoBuffer: null,
+        pickHistory: [],
+        redoStack: [],
       };
 
-      console.log('Saving draft:', draftName, 'with', cards.length, 'cards');
       await saveDraft(draftName.trim(), draftState);
-      console.log('Draft saved successfully');
-      
-      if (unmatched.length > 0) {
-        alert(`Draft saved! ${unmatched.length} card(s) could not be matched:\n${unmatched.slice(0, 5).join('\n')}${unmatched.length > 5 ? '\n...' : ''}`);
-      } else {
-        alert('Draft imported successfully!');
-      }
+      alert(`Draft imported with ${cards.length} cards!`);
 
-      setImportText('');
-      setShowImport(false);
+      resetImport();
       await refreshDraftsAndDecks();
     } catch (err) {
       console.error('Failed to import draft:', err);
@@ -479,7 +464,8 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
     <div className="max-w-6xl mx-auto">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-3xl font-bold text-white">Saved Drafts</h2>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <DeckCodecSelect value={codecId} onChange={setCodecId} />
           <button
             onClick={handleExportDatabase}
             disabled={exporting}
@@ -504,7 +490,11 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
             {importingDb ? 'Importing...' : 'Import DB'}
           </label>
           <button
-            onClick={() => setShowImport(!showImport)}
+            onClick={() => {
+              setShowImport(!showImport);
+              setImportedList(null);
+              setReviewRows(null);
+            }}
             className="px-4 py-2 bg-transparent border-2 border-green-500 text-green-500 rounded-lg 
               hover:bg-green-500/10 focus:ring-2 focus:ring-green-500 
               font-semibold transition-colors"
@@ -536,40 +526,109 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
       {showImport && (
         <div className="bg-gray-800 p-6 rounded-lg mb-6">
           <h3 className="text-xl font-bold text-white mb-4">Import Draft</h3>
-          <p className="text-gray-400 text-sm mb-4">
-            Paste your deck list. Supports formats:
-            <br />
-            <code className="text-yellow-400">3 Cinderella - Dream Come True</code> (new format)
-            <br />
-            <code className="text-yellow-400">3 - Cinderella - Dream Come True - Sapphire</code> (old format)
-          </p>
-          <textarea
-            value={importText}
-            onChange={(e) => {
-              setImportText(e.target.value);
-              setImportError(null);
-            }}
-            placeholder="3 Cinderella - Dream Come True&#10;3 Megara - Secret Keeper&#10;..."
-            className="w-full h-48 px-3 py-2 bg-gray-900 text-white 
-              border border-gray-700 rounded-lg 
-              focus:ring-2 focus:ring-green-500 focus:border-transparent 
-              font-mono text-sm mb-4"
-          />
-          {importError && (
-            <div className="mb-4 p-3 bg-red-900/50 border border-red-500 
-              rounded-lg text-red-200 text-sm">
-              {importError}
+          {reviewRows && cardIndex ? (
+            <div className="space-y-4">
+              <p className="text-gray-400 text-sm">
+                Read as <span className="text-white font-semibold">{importedList?.format.name}</span>.
+                Check how each line matched. Pick a different card, search for one, or skip the line.
+              </p>
+              {importedList && importedList.skipped.length > 0 && (
+                <div className="text-sm text-gray-400">
+                  {importedList.skipped.length} line{importedList.skipped.length === 1 ? '' : 's'} not understood:
+                  <ul className="mt-1 font-mono text-xs text-gray-500">
+                    {importedList.skipped.slice(0, 5).map((line, idx) => (
+                      <li key={idx}>{line}</li>
+                    ))}
+                    {importedList.skipped.length > 5 && <li>…</li>}
+                  </ul>
+                </div>
+              )}
+              <ImportReview rows={reviewRows} index={cardIndex} onChange={setReviewRows} />
+              {importError && (
+                <div className="mb-4 p-3 bg-red-900/50 border border-red-500 
+                  rounded-lg text-red-200 text-sm">
+                  {importError}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => {
+                    setImportedList(null);
+                    setReviewRows(null);
+                  }}
+                  className="px-6 py-3 bg-transparent border-2 border-gray-500 text-gray-300 rounded-lg 
+                    hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-500 
+                    font-semibold transition-colors"
+                >
+                  Back to Text
+                </button>
+                <button
+                  onClick={handleConfirmImport}
+                  disabled={importing}
+                  className="px-6 py-3 bg-transparent border-2 border-green-500 text-green-500 rounded-lg 
+                    hover:bg-green-500/10 focus:ring-2 focus:ring-green-500 
+                    font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  {importing ? 'Importing...' : importTargetId === null ? 'Import Draft' : 'Save Deck'}
+                </button>
+              </div>
             </div>
+          ) : (
+            <>
+              <p className="text-gray-400 text-sm mb-4">
+                Paste a deck list; the format is detected for you:
+              </p>
+              <ul className="text-sm text-gray-400 mb-4 space-y-0.5">
+                {DECK_LIST_FORMATS.map(format => (
+                  <li key={format.id}>
+                    {format.name}: <code className="text-yellow-400">{format.example}</code>
+                  </li>
+                ))}
+              </ul>
+              <label className="flex items-center gap-2 text-sm text-gray-300 mb-4">
+                <span>Import as</span>
+                <select
+                  value={importTargetId ?? ''}
+                  onChange={(e) => setImportTargetId(e.target.value ? Number(e.target.value) : null)}
+                  className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-1 text-sm text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  <option value="">A new draft</option>
+                  {drafts.map(draft => (
+                    <option key={draft.id} value={draft.id}>
+                      A deck in {draft.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <textarea
+                value={importText}
+                onChange={(e) => {
+                  setImportText(e.target.value);
+                  setImportError(null);
+                }}
+                placeholder="3 Cinderella - Dream Come True&#10;3 Megara - Secret Keeper&#10;..."
+                className="w-full h-48 px-3 py-2 bg-gray-900 text-white 
+                  border border-gray-700 rounded-lg 
+                  focus:ring-2 focus:ring-green-500 focus:border-transparent 
+                  font-mono text-sm mb-4"
+              />
+              {importError && (
+                <div className="mb-4 p-3 bg-red-900/50 border border-red-500 
+                  rounded-lg text-red-200 text-sm">
+                  {importError}
+                </div>
+              )}
+              <button
+                onClick={handleImportDeck}
+                disabled={importing || !importText.trim()}
+                className="px-6 py-3 bg-transparent border-2 border-green-500 text-green-500 rounded-lg 
+                  hover:bg-green-500/10 focus:ring-2 focus:ring-green-500 
+                  font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                Review Import
+              </button>
+            </>
           )}
-          <button
-            onClick={handleImportDeck}
-            disabled={importing || !importText.trim()}
-            className="px-6 py-3 bg-transparent border-2 border-green-500 text-green-500 rounded-lg 
-              hover:bg-green-500/10 focus:ring-2 focus:ring-green-500 
-              font-semibold transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
-          >
-            {importing ? 'Importing...' : 'Import Draft'}
-          </button>
         </div>
       )}
       
@@ -583,13 +642,7 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
       ) : (
         <div className="flex flex-col gap-4">
           {drafts.map(draft => {
-            let cardCount = 0;
-            try {
-              const draftState: DraftState = JSON.parse(draft.draft_state_json);
-              cardCount = draftState.picks.length;
-            } catch (e) {
-              // Ignore parse errors
-            }
+            const cardCount = draft.draft_state.picks.length;
             const draftDecks = decksByDraft[draft.id] ?? [];
 
             return (
@@ -710,12 +763,25 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
                               >
                                 Edit
                               </button>
+                              <button
+                                onClick={() => setHistoryDeck(deck)}
+                                className="px-3 py-1 rounded-md border border-purple-500 text-xs text-purple-300 hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-400 transition-colors"
+                                title="Earlier versions of this deck"
+                              >
+                                History
+                              </button>
                               <button
                                 onClick={() => { void handleCopySavedDeck(deck); }}
                                 className="px-3 py-1 rounded-md border border-green-500 text-xs text-green-300 hover:bg-green-500/10 focus:ring-2 focus:ring-green-400 transition-colors"
                               >
                                 {copiedDeckId === deck.id ? 'Copied!' : 'Copy'}
                               </button>
+                              <button
+                                onClick={() => downloadDeck(codecId, deck.name, deck.cards)}
+                                className="px-3 py-1 rounded-md border border-gray-500 text-xs text-gray-300 hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-400 transition-colors"
+                              >
+                                Download
+                              </button>
                             </div>
                           </li>
                         ))}
@@ -785,12 +851,25 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
                   >
                     Edit
                   </button>
+                  <button
+                    onClick={() => setHistoryDeck(deck)}
+                    className="px-3 py-1 rounded-md border border-purple-500 text-xs text-purple-300 hover:bg-purple-500/10 focus:ring-2 focus:ring-purple-400 transition-colors"
+                    title="Earlier versions of this deck"
+                  >
+                    History
+                  </button>
                   <button
                     onClick={() => { void handleCopySavedDeck(deck); }}
                     className="px-3 py-1 rounded-md border border-green-500 text-xs text-green-300 hover:bg-green-500/10 focus:ring-2 focus:ring-green-400 transition-colors"
                   >
                     {copiedDeckId === deck.id ? 'Copied!' : 'Copy'}
                   </button>
+                  <button
+                    onClick={() => downloadDeck(codecId, deck.name, deck.cards)}
+                    className="px-3 py-1 rounded-md border border-gray-500 text-xs text-gray-300 hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-400 transition-colors"
+                  >
+                    Download
+                  </button>
                 </div>
               </div>
             ))}
@@ -802,14 +881,22 @@ export function SavedDecks({ masterCards }: SavedDecksProps) {
         <EditDeckCards
           deck={editingDeckCards}
           draft={editingDeckCards.draft_id ? drafts.find(d => d.id === editingDeckCards.draft_id) ?? null : null}
-          onSave={async (cards: Card[]) => {
-            await updateDeckCards(editingDeckCards.id, cards);
+          onSave={async (cards: Card[], note: string) => {
+            await updateDeckCards(editingDeckCards.id, cards, note);
             await refreshDraftsAndDecks();
             setEditingDeckCards(null);
           }}
           onCancel={handleCancelEditDeckCards}
         />
       )}
+
+      {historyDeck && (
+        <DeckHistory
+          deck={historyDeck}
+          onRestored={refreshDraftsAndDecks}
+          onClose={() => setHistoryDeck(null)}
+        />
+      )}
     </div>
   );
 }
@@ -823,8 +910,6 @@ type CardFiltersState = {
   evasiveOnly: boolean;
 };
 
-const MAX_DECK_SIZE = 40;
-
 const sortOptions: Array<{ value: SortOption; label: string }> = [
   { value: 'default', label: 'Type → Cost Asc' },
   { value: 'cost-asc', label: 'Cost Asc' },
@@ -840,6 +925,19 @@ const makeEmptyFilters = (): CardFiltersState => ({
   evasiveOnly: false,
 });
 
+/**
+ * How many of a deck's cards a draft's pool can't supply, copies counted
+ */
+const countCardsNotInPool = (cards: Card[], pool: Card[]): number => {
+  const available = new Map<string, number>();
+  pool.forEach(card => available.set(card.fullName, (available.get(card.fullName) ?? 0) + 1));
+  return cards.filter(card => {
+    const left = available.get(card.fullName) ?? 0;
+    available.set(card.fullName, left - 1);
+    return left <= 0;
+  }).length;
+};
+
 interface SavedDraftDetailProps {
   draft: SavedDraft;
   onBack: () => void;
@@ -852,16 +950,7 @@ interface CardEntry {
 }
 
 function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps) {
-  const draftState: DraftState | null = useMemo(() => {
-    try {
-      return JSON.parse(draft.draft_state_json) as DraftState;
-    } catch (err) {
-      console.error('Failed to parse draft state:', err);
-      return null;
-    }
-  }, [draft]);
-
-  const cards = draftState?.picks ?? [];
+  const cards = draft.draft_state.picks;
 
   const [filters, setFilters] = useState<CardFiltersState>(() => makeEmptyFilters());
   const [sortOption, setSortOption] = useState<SortOption>('default');
@@ -870,6 +959,10 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
   const [status, setStatus] = useState<{ tone: 'success' | 'error' | 'info'; message: string } | null>(null);
   const [saving, setSaving] = useState(false);
   const [hoveredCard, setHoveredCard] = useState<Card | null>(null);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showAutoBuilds, setShowAutoBuilds] = useState(false);
+  const [showInkPairs, setShowInkPairs] = useState(false);
+  const [formatId, setFormatId] = useState<DeckFormatId>('limited');
 
   const cardEntries: CardEntry[] = useMemo(
     () => cards.map((card, index) => ({ card, index })),
@@ -956,6 +1049,8 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
   );
 
   const selectedSet = useMemo(() => new Set(selectedIndices), [selectedIndices]);
+  const validation = useMemo(() => validateDeck(selectedCards, formatId), [selectedCards, formatId]);
+  const minCards = getDeckFormat(formatId).minCards;
 
   // Calculate cost summary for selected cards
   const costSummary = useMemo(() => {
@@ -1002,10 +1097,6 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
         setStatus(null);
         return prev.filter(i => i !== index);
       }
-      if (prev.length >= MAX_DECK_SIZE) {
-        setStatus({ tone: 'error', message: `You can only select up to ${MAX_DECK_SIZE} cards.` });
-        return prev;
-      }
       setStatus(null);
       return [...prev, index];
     });
@@ -1016,6 +1107,13 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
     setStatus(null);
   }, []);
 
+  const handleUseBuild = useCallback((build: DeckBuild) => {
+    setSelectedIndices(build.indices);
+    setDeckName(`${draft.name} ${build.inks.join('/')}`);
+    setFormatId('limited');
+    setStatus({ tone: 'info', message: `Loaded the ${build.inks.join('/')} build. Adjust it or save as is.` });
+  }, [draft.name]);
+
   const handleSaveDeck = useCallback(async () => {
     if (selectedCards.length === 0) {
       setStatus({ tone: 'error', message: 'Select at least one card before saving.' });
@@ -1026,6 +1124,9 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
       setStatus({ tone: 'error', message: 'Please enter a deck name.' });
       return;
     }
+    if (!confirmDeckSave(selectedCards, validation, formatId)) {
+      return;
+    }
     setSaving(true);
     try {
       await saveDeck(trimmedName, selectedCards, draft.id);
@@ -1038,22 +1139,7 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
     } finally {
       setSaving(false);
     }
-  }, [deckName, selectedCards, draft.id, onDeckSaved]);
-
-  const handleCopyDeck = useCallback(async () => {
-    if (selectedCards.length === 0) {
-      setStatus({ tone: 'error', message: 'Select at least one card to copy.' });
-      return;
-    }
-    try {
-      const text = generateCopyTextWithoutColor(selectedCards);
-      await navigator.clipboard.writeText(text);
-      setStatus({ tone: 'success', message: 'Deck copied to clipboard.' });
-    } catch (err) {
-      console.error('Failed to copy deck:', err);
-      setStatus({ tone: 'error', message: 'Failed to copy deck to clipboard.' });
-    }
-  }, [selectedCards]);
+  }, [deckName, selectedCards, draft.id, onDeckSaved, validation, formatId]);
 
   useEffect(() => {
     if (!status) return;
@@ -1061,24 +1147,6 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
     return () => window.clearTimeout(timer);
   }, [status]);
 
-  if (!draftState) {
-    return (
-      <div className="max-w-6xl mx-auto space-y-6">
-        <div className="flex items-center justify-between gap-4">
-          <button
-            onClick={onBack}
-            className="px-4 py-2 bg-transparent border-2 border-gray-500 text-gray-300 rounded-lg 
-              hover:bg-gray-500/10 focus:ring-2 focus:ring-gray-500 
-              font-semibold transition-colors"
-          >
-            ← Back to Drafts
-          </button>
-          <span className="text-red-300 text-sm">Unable to load this draft.</span>
-        </div>
-      </div>
-    );
-  }
-
   const totalCards = cards.length;
   const showingCount = filteredEntries.length;
 
@@ -1099,8 +1167,58 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
             Created {new Date(draft.created_at).toLocaleString()} • {totalCards} cards saved
           </p>
         </div>
+        {draft.draft_state.log.length > 0 && (
+          <button
+            onClick={() => setShowReplay(!showReplay)}
+            className="self-start px-4 py-2 bg-transparent border-2 border-teal-500 text-teal-500 rounded-lg 
+              hover:bg-teal-500/10 focus:ring-2 focus:ring-teal-500 
+              font-semibold transition-colors"
+          >
+            {showReplay ? 'Hide Replay' : 'Replay Draft'}
+          </button>
+        )}
+        {totalCards > 0 && (
+          <button
+            onClick={() => setShowInkPairs(!showInkPairs)}
+            className="self-start px-4 py-2 bg-transparent border-2 border-indigo-500 text-indigo-400 rounded-lg 
+              hover:bg-indigo-500/10 focus:ring-2 focus:ring-indigo-500 
+              font-semibold transition-colors"
+          >
+            {showInkPairs ? 'Hide Ink Pairs' : 'Ink Pairs'}
+          </button>
+        )}
+        {totalCards > 0 && (
+          <button
+            onClick={() => setShowAutoBuilds(!showAutoBuilds)}
+            className="self-start px-4 py-2 bg-transparent border-2 border-yellow-500 text-yellow-500 rounded-lg 
+              hover:bg-yellow-500/10 focus:ring-2 focus:ring-yellow-500 
+              font-semibold transition-colors"
+          >
+            {showAutoBuilds ? 'Hide Auto-Build' : 'Auto-Build'}
+          </button>
+        )}
       </div>
 
+      {showReplay && (
+        <DraftReplay draftState={draft.draft_state} onClose={() => setShowReplay(false)} />
+      )}
+
+      {showInkPairs && totalCards > 0 && (
+        <div className="bg-gray-800 p-6 rounded-lg">
+          <h3 className="text-xl font-semibold text-white mb-2">Ink Pairs</h3>
+          <InkPairs cards={cards} ratings={draft.draft_state.ratings} />
+        </div>
+      )}
+
+      {showAutoBuilds && totalCards > 0 && (
+        <AutoBuilds
+          cards={cards}
+          ratings={draft.draft_state.ratings}
+          onUse={handleUseBuild}
+          onClose={() => setShowAutoBuilds(false)}
+        />
+      )}
+
       {totalCards === 0 ? (
         <div className="bg-gray-800 p-6 rounded-lg text-center text-gray-400">
           This draft has no saved cards yet.
@@ -1297,12 +1415,14 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
 
               <div className="text-sm text-gray-300">
                 Selected{' '}
-                <span className={`font-semibold ${selectedCards.length > MAX_DECK_SIZE ? 'text-red-400' : 'text-white'}`}>
+                <span className={`font-semibold ${selectedCards.length < minCards ? 'text-red-400' : 'text-white'}`}>
                   {selectedCards.length}
                 </span>{' '}
-                / {MAX_DECK_SIZE}
+                / {minCards}
               </div>
 
+              <DeckLegality validation={validation} formatId={formatId} onFormatChange={setFormatId} />
+
               <div className="flex flex-wrap gap-2">
                 <button
                   onClick={handleSaveDeck}
@@ -1311,12 +1431,6 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
                 >
                   {saving ? 'Saving...' : 'Save Deck'}
                 </button>
-                <button
-                  onClick={handleCopyDeck}
-                  className="px-4 py-2 rounded-lg border-2 border-green-500 text-green-300 hover:bg-green-500/10 focus:ring-2 focus:ring-green-400 transition-colors"
-                >
-                  Copy Deck
-                </button>
                 <button
                   onClick={handleClearSelection}
                   disabled={selectedCards.length === 0}
@@ -1326,6 +1440,8 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
                 </button>
               </div>
 
+              <DeckExport deckName={deckName.trim() || `${draft.name} Deck`} cards={selectedCards} />
+
               {status && (
                 <div
                   className={`mt-2 rounded-lg border px-3 py-2 text-sm ${
@@ -1341,7 +1457,7 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
               )}
             </div>
 
-            <PickedCards picks={selectedCards} title="Deck Picks" />
+            <PickedCards picks={selectedCards} title="Deck Picks" initialShowStats />
           </div>
         </div>
       )}
@@ -1387,7 +1503,7 @@ function SavedDraftDetail({ draft, onBack, onDeckSaved }: SavedDraftDetailProps)
 interface EditDeckCardsProps {
   deck: SavedDeck;
   draft: SavedDraft | null;
-  onSave: (cards: Card[]) => Promise<void>;
+  onSave: (cards: Card[], note: string) => Promise<void>;
   onCancel: () => void;
 }
 
@@ -1395,27 +1511,12 @@ function EditDeckCards({ deck, draft, onSave, onCancel }: EditDeckCardsProps) {
   const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
   const [hoveredCard, setHoveredCard] = useState<Card | null>(null);
   const [saving, setSaving] = useState(false);
+  const [formatId, setFormatId] = useState<DeckFormatId>('limited');
+  const [note, setNote] = useState('');
 
-  const availableCards = useMemo(() => {
-    if (draft) {
-      try {
-        const draftState: DraftState = JSON.parse(draft.draft_state_json);
-        return draftState.picks;
-      } catch (err) {
-        console.error('Failed to parse draft state:', err);
-      }
-    }
-    return [];
-  }, [draft]);
+  const availableCards = useMemo(() => draft?.draft_state.picks ?? [], [draft]);
 
-  const currentDeckCards = useMemo(() => {
-    try {
-      return JSON.parse(deck.cards_json) as Card[];
-    } catch (err) {
-      console.error('Failed to parse deck cards:', err);
-      return [];
-    }
-  }, [deck]);
+  const currentDeckCards = deck.cards;
 
   useEffect(() => {
     if (availableCards.length === 0) return;
@@ -1437,16 +1538,14 @@ function EditDeckCards({ deck, draft, onSave, onCancel }: EditDeckCardsProps) {
   );
 
   const selectedSet = useMemo(() => new Set(selectedIndices), [selectedIndices]);
+  const validation = useMemo(() => validateDeck(selectedCards, formatId), [selectedCards, formatId]);
+  const minCards = getDeckFormat(formatId).minCards;
 
   const handleToggleCard = useCallback((index: number) => {
     setSelectedIndices(prev => {
       if (prev.includes(index)) {
         return prev.filter(i => i !== index);
       }
-      if (prev.length >= MAX_DECK_SIZE) {
-        alert(`You can only select up to ${MAX_DECK_SIZE} cards.`);
-        return prev;
-      }
       return [...prev, index];
     });
   }, []);
@@ -1456,16 +1555,19 @@ function EditDeckCards({ deck, draft, onSave, onCancel }: EditDeckCardsProps) {
       alert('Select at least one card before saving.');
       return;
     }
+    if (!confirmDeckSave(selectedCards, validation, formatId)) {
+      return;
+    }
     setSaving(true);
     try {
-      await onSave(selectedCards);
+      await onSave(selectedCards, note);
     } catch (err) {
       console.error('Failed to save deck:', err);
       alert('Failed to save deck. Please try again.');
     } finally {
       setSaving(false);
     }
-  }, [selectedCards, onSave]);
+  }, [selectedCards, onSave, validation, formatId, note]);
 
   if (availableCards.length === 0) {
     return (
@@ -1554,11 +1656,19 @@ function EditDeckCards({ deck, draft, onSave, onCancel }: EditDeckCardsProps) {
             <div className="bg-gray-900/50 p-6 rounded-lg space-y-4">
               <div className="text-sm text-gray-300">
                 Selected{' '}
-                <span className={`font-semibold ${selectedCards.length > MAX_DECK_SIZE ? 'text-red-400' : 'text-white'}`}>
+                <span className={`font-semibold ${selectedCards.length < minCards ? 'text-red-400' : 'text-white'}`}>
                   {selectedCards.length}
                 </span>{' '}
-                / {MAX_DECK_SIZE}
+                / {minCards}
               </div>
+              <DeckLegality validation={validation} formatId={formatId} onFormatChange={setFormatId} />
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note for this version (optional)"
+                className="w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-600 text-white text-sm focus:ring-2 focus:ring-purple-400 focus:border-transparent"
+              />
               <button
                 onClick={handleSave}
                 disabled={saving || selectedCards.length === 0}
@@ -1567,7 +1677,7 @@ function EditDeckCards({ deck, draft, onSave, onCancel }: EditDeckCardsProps) {
                 {saving ? 'Saving...' : 'Save Changes'}
               </button>
             </div>
-            <PickedCards picks={selectedCards} title="Selected Cards" />
+            <PickedCards picks={selectedCards} title="Selected Cards" initialShowStats />
           </div>
         </div>
 
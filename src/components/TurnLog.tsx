@@ -1,31 +1,88 @@
-import { PickLogEntry } from '../types';
+import { useState } from 'react';
+import { DraftMode, PickLogEntry } from '../types';
 
 interface TurnLogProps {
   log: PickLogEntry[];
+  mode?: DraftMode;
   maxEntries?: number;
+  onJumpToPick?: (pickIndex: number) => void; // rewind to just before a pick (index into log)
 }
 
-export function TurnLog({ log, maxEntries = 10 }: TurnLogProps) {
+export function TurnLog({ log, mode = 'shared', maxEntries = 10, onJumpToPick }: TurnLogProps) {
   const displayLog = log.slice(-maxEntries).reverse();
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const toggleExpanded = (pickIndex: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(pickIndex)) {
+        next.delete(pickIndex);
+      } else {
+        next.add(pickIndex);
+      }
+      return next;
+    });
+  };
 
   return (
     <div className="bg-gray-800 p-4 rounded-lg">
       <h3 className="text-lg font-semibold text-white mb-3">Recent Picks</h3>
+      {onJumpToPick && log.length > 0 && (
+        <p className="text-xs text-gray-500 mb-2">Click a pick's round and turn to rewind the draft to just before it.</p>
+      )}
       <div className="space-y-2 max-h-64 overflow-y-auto">
-        {displayLog.map((entry, idx) => (
-          <div key={idx} className="text-sm text-gray-300 border-l-2 border-blue-500 pl-3 py-1">
-            <span className="font-semibold text-blue-400">
-              R{entry.round} T{entry.turn}:
-            </span>{' '}
-            Picked <span className="text-white font-semibold">{entry.picked.fullName}</span>{' '}
-            ({entry.picked.color}).{' '}
-            {entry.removedCounts > 0 && (
-              <span className="text-gray-400">
-                Removed {entry.removedCounts} from other packs.
-              </span>
-            )}
-          </div>
-        ))}
+        {displayLog.map((entry, idx) => {
+          const pickIndex = log.length - 1 - idx;
+          return (
+            <div
+              key={pickIndex}
+              className="text-sm text-gray-300 border-l-2 border-blue-500 pl-3 py-1"
+            >
+              {onJumpToPick ? (
+                <button
+                  onClick={() => onJumpToPick(pickIndex)}
+                  title={`Rewind to before pick ${pickIndex + 1}`}
+                  className="font-semibold text-blue-400 hover:text-blue-300 hover:underline"
+                >
+                  R{entry.round} T{entry.turn}:
+                </button>
+              ) : (
+                <span className="font-semibold text-blue-400">
+                  R{entry.round} T{entry.turn}:
+                </span>
+              )}{' '}
+              Picked <span className="text-white font-semibold">{entry.picked.fullName}</span>{' '}
+              ({entry.picked.color}).{' '}
+              {entry.removedCounts > 0 && (
+                <button
+                  onClick={() => toggleExpanded(pickIndex)}
+                  className="text-gray-400 hover:text-yellow-300"
+                  title={expanded.has(pickIndex) ? 'Hide removed cards' : 'Show removed cards'}
+                >
+                  {expanded.has(pickIndex) ? '▾' : '▸'}{' '}
+                  {mode === 'pod'
+                    ? `Bots took ${entry.removedCounts} from the other packs, then passed.`
+                    : `Removed ${entry.removedCounts} from other packs.`}
+                </button>
+              )}
+              {expanded.has(pickIndex) && (
+                <ul className="mt-1 ml-3 space-y-0.5 text-xs">
+                  {entry.removed.map((removal, removalIdx) => (
+                    <li key={removalIdx}>
+                      <span className="text-gray-500">P{removal.packIndex + 1}:</span>{' '}
+                      <span className="text-white">{removal.card.fullName}</span>{' '}
+                      <span className="text-gray-400">({removal.card.color})</span>{' '}
+                      <span className="text-gray-500">— {removal.reason}</span>
+                    </li>
+                  ))}
+                  {entry.removed.length === 0 && (
+                    <li className="text-gray-500">Not recorded for this pick.</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          );
+        })}
         {displayLog.length === 0 && (
           <p className="text-gray-500 text-sm">No picks yet</p>
         )}
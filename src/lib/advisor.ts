@@ -0,0 +1,127 @@
+import { Card, CardRatings } from '../types';
+import { getCardGrade } from './cardValue';
+import { getCardKey } from './cardUtils';
+import { getCurveBucket } from './deckUtils';
+import { getInkCommitment, getInkWeights, getTopInks } from './inks';
+
+export interface PickAdvice {
+  index: number;        // index into the pack's cards
+  score: number;        // higher is better; comparable within one pack only
+  reasons: string[];    // short notes on what moved the score, best first
+}
+
+/**
+ * Grade points an on-ink card is worth to a fully committed pool
+ */
+const INK_BONUS = 1.5;
+
+/**
+ * Grade points for filling a completely empty spot on the curve
+ */
+const CURVE_BONUS = 0.8;
+
+/**
+ * Grade points for an inkable card when the pool has no inkable cards at all
+ */
+const INKWELL_BONUS = 0.6;
+
+/**
+ * Share of a sealed deck we'd like inkable
+ */
+const TARGET_INKABLE_SHARE = 0.65;
+
+/**
+ * Rough share of a limited deck at each cost (7 = 7 or more)
+ */
+export const IDEAL_CURVE: Record<number, number> = {
+  1: 0.1,
+  2: 0.2,
+  3: 0.2,
+  4: 0.18,
+  5: 0.12,
+  6: 0.1,
+  7: 0.1,
+};
+
+/**
+ * Pool size before curve and inkwell needs start to count
+ */
+const MIN_POOL_FOR_NEEDS = 5;
+
+/**
+ * Score every card in a pack against the pool drafted so far.
+ * Weighs the card's own grade, how well it fits the pool's two main inks
+ * (more as the pool firms up), gaps in the pool's curve and how many of
+ * the pool's cards can go into the inkwell.
+ */
+export function advisePicks(pack: Card[], pool: Card[], ratings: CardRatings = {}): PickAdvice[] {
+  const weights = getInkWeights(pool, ratings);
+  const topInks = getTopInks(weights);
+  const commitment = getInkCommitment(pool.length);
+  const strongestInk = topInks.length > 0 ? weights[topInks[0]] : 0;
+
+  // Curve and inkwell needs are judged on the cards we're likely to play
+  const playable = topInks.length > 0 ? pool.filter(card => topInks.includes(card.color)) : pool;
+  const curveCounts: Record<number, number> = {};
+  playable.forEach(card => {
+    const bucket = getCurveBucket(card);
+    curveCounts[bucket] = (curveCounts[bucket] ?? 0) + 1;
+  });
+  const inkableShare = playable.length > 0
+    ? playable.filter(card => card.inkwell !== false).length / playable.length
+    : 1;
+  const hasNeeds = playable.length >= MIN_POOL_FOR_NEEDS;
+
+  return pack.map((card, index) => {
+    const notes: Array<{ text: string; weight: number }> = [];
+    const quality = getCardGrade(card, ratings);
+    const rated = getCardKey(card.id) in ratings;
+    let score = quality;
+    notes.push({ text: `${rated ? 'rated' : 'est. grade'} ${quality.toFixed(1)}`, weight: quality / 5 });
+
+    const onInk = topInks.includes(card.color);
+    const committed = topInks.length === 2 && commitment >= 0.5;
+
+    if (onInk && strongestInk > 0) {
+      const bonus = INK_BONUS * commitment * (weights[card.color] / strongestInk);
+      score += bonus;
+      if (bonus > 0.1) notes.push({ text: `on ink (${card.color})`, weight: bonus });
+    } else if (committed) {
+      notes.push({ text: `off ink — you're in ${topInks.join('/')}`, weight: 0 });
+    }
+
+    // Only cards we'd likely play can fill the pool's needs
+    if (hasNeeds && (onInk || !committed)) {
+      const bucket = getCurveBucket(card);
+      const ideal = IDEAL_CURVE[bucket];
+      const actual = (curveCounts[bucket] ?? 0) / playable.length;
+      if (actual < ideal) {
+        const bonus = CURVE_BONUS * ((ideal - actual) / ideal);
+        score += bonus;
+        if (bonus > 0.2) notes.push({ text: `fills the ${bucket === 7 ? '7+' : bucket}-cost gap`, weight: bonus });
+      }
+
+      if (card.inkwell !== false && inkableShare < TARGET_INKABLE_SHARE) {
+        const bonus = INKWELL_BONUS * ((TARGET_INKABLE_SHARE - inkableShare) / TARGET_INKABLE_SHARE);
+        score += bonus;
+        if (bonus > 0.1) notes.push({ text: `inkable (pool ${Math.round(inkableShare * 100)}%)`, weight: bonus });
+      }
+    }
+
+    return {
+      index,
+      score,
+      reasons: notes.sort((a, b) => b.weight - a.weight).map(note => note.text),
+    };
+  });
+}
+
+/**
+ * The advice for the card to take, or null for an empty pack
+ */
+export function getRecommendedPick(advice: PickAdvice[]): PickAdvice | null {
+  return advice.reduce<PickAdvice | null>(
+    (best, entry) => (best === null || entry.score > best.score ? entry : best),
+    null
+  );
+}
@@ -0,0 +1,148 @@
+import { Card, DraftState } from '../types';
+import { Rng, deriveRng, randomInt } from './random';
+import { getCardGrade } from './cardValue';
+import { getInkWeights, getTopInks } from './inks';
+import { IDEAL_CURVE } from './advisor';
+import { getCurveBucket } from './deckUtils';
+import { findBestCardIndex, findRarestCardIndex } from './removal';
+import { getActivePackIndex, pickCard } from './draft';
+
+export type AutopickPolicyId = 'random' | 'rarest' | 'highest-rated' | 'two-inks' | 'curve';
+
+export interface AutopickPolicy {
+  id: AutopickPolicyId;
+  name: string;
+  description: string;
+  chooseCard(cards: Card[], state: DraftState, rng: Rng): number;
+}
+
+/**
+ * Stop auto-drafting just before my first pick of this round and turn
+ */
+export interface AutoDraftStop {
+  round: number;
+  turn: number;
+}
+
+/**
+ * Picks before "stay in two inks" settles on the pool's top two inks
+ */
+const TWO_INK_SETTLE_PICKS = 6;
+
+/**
+ * The two inks the pool leans into, once it has enough picks to tell
+ */
+function getSettledInks(state: DraftState): string[] {
+  if (state.picks.length < TWO_INK_SETTLE_PICKS) return [];
+  return getTopInks(getInkWeights(state.picks, state.ratings));
+}
+
+const randomPolicy: AutopickPolicy = {
+  id: 'random',
+  name: 'Random',
+  description: 'Any card in the pack.',
+  chooseCard: (cards, _state, rng) => randomInt(cards.length, rng),
+};
+
+const rarestPolicy: AutopickPolicy = {
+  id: 'rarest',
+  name: 'Rarest',
+  description: 'The rarest card, ties broken at random.',
+  chooseCard: (cards, _state, rng) => findRarestCardIndex(cards, rng),
+};
+
+const highestRatedPolicy: AutopickPolicy = {
+  id: 'highest-rated',
+  name: 'Highest rated',
+  description: 'The best-graded card, ignoring inks.',
+  chooseCard: (cards, state) => findBestCardIndex(cards, state.ratings),
+};
+
+const twoInksPolicy: AutopickPolicy = {
+  id: 'two-inks',
+  name: 'Stay in two inks',
+  description: 'Takes the best cards early, then only the two inks the pool leans into.',
+  chooseCard: (cards, state) => {
+    const inks = getSettledInks(state);
+    const onInkIndex = inks.length > 0 ? findBestCardIndex(cards, state.ratings, card => inks.includes(card.color)) : -1;
+    return onInkIndex !== -1 ? onInkIndex : findBestCardIndex(cards, state.ratings);
+  },
+};
+
+const curvePolicy: AutopickPolicy = {
+  id: 'curve',
+  name: 'Best curve fit',
+  description: 'Fills the emptiest cost slot in its two inks, best grade first.',
+  chooseCard: (cards, state) => {
+    const inks = getSettledInks(state);
+    const pool = inks.length > 0 ? state.picks.filter(card => inks.includes(card.color)) : state.picks;
+    const counts: Record<number, number> = {};
+    pool.forEach(card => {
+      const bucket = getCurveBucket(card);
+      counts[bucket] = (counts[bucket] ?? 0) + 1;
+    });
+
+    // How far below its ideal share the card's cost slot is (negative when over)
+    const need = (card: Card) => {
+      const bucket = getCurveBucket(card);
+      return IDEAL_CURVE[bucket] - (counts[bucket] ?? 0) / Math.max(1, pool.length);
+    };
+
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    cards.forEach((card, index) => {
+      const onInk = inks.length === 0 || inks.includes(card.color);
+      const score = (onInk ? 10 : 0) + need(card) * 10 + getCardGrade(card, state.ratings) * 0.2;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    return bestIndex;
+  },
+};
+
+export const AUTOPICK_POLICIES: AutopickPolicy[] = [
+  highestRatedPolicy,
+  twoInksPolicy,
+  curvePolicy,
+  rarestPolicy,
+  randomPolicy,
+];
+
+/**
+ * Look up an autopick policy by id, falling back to highest rated
+ */
+export function getAutopickPolicy(id: AutopickPolicyId | undefined): AutopickPolicy {
+  return AUTOPICK_POLICIES.find(policy => policy.id === id) ?? highestRatedPolicy;
+}
+
+/**
+ * Whether the draft has reached the stop point
+ */
+function hasReachedStop(state: DraftState, stop: AutoDraftStop): boolean {
+  return state.currentRound > stop.round ||
+    (state.currentRound === stop.round && state.currentTurn >= stop.turn);
+}
+
+/**
+ * Make picks with a policy until the draft is complete, or until the given
+ * round and turn come up so I can take over from there.
+ * Random choices are seeded from the draft, so the same draft auto-drafts the same way.
+ */
+export function autoDraft(state: DraftState, policyId: AutopickPolicyId, stop?: AutoDraftStop): DraftState {
+  const policy = getAutopickPolicy(policyId);
+  let current = state;
+
+  while (!current.isComplete && !(stop && hasReachedStop(current, stop))) {
+    const activePack = current.rounds[current.rounds.length - 1].packs[getActivePackIndex(current)];
+    if (activePack.cards.length === 0) {
+      console.error('Active pack is empty, cannot continue sim');
+      break;
+    }
+    const rng = deriveRng(current.seed, 'autopick', current.picks.length);
+    current = pickCard(current, policy.chooseCard(activePack.cards, current, rng));
+  }
+
+  return current;
+}
@@ -0,0 +1,86 @@
+import { BotState, Card, CardRatings } from '../types';
+import { Rng, randomInt } from './random';
+import { getCardGrade } from './cardValue';
+import { getInkCommitment, getInkWeights, getTopInks } from './inks';
+
+/**
+ * How much on-colour cards are worth to a fully committed bot, in grade points
+ */
+const COLOR_BONUS = 2;
+
+/**
+ * Create the bots for a draft, one per seat besides mine
+ */
+export function createBots(count: number): BotState[] {
+  const bots: BotState[] = [];
+  for (let i = 1; i <= count; i++) {
+    bots.push({ id: i, name: `Bot ${i}`, pool: [] });
+  }
+  return bots;
+}
+
+/**
+ * Total card value the bot has taken in each ink
+ */
+export function getBotInkWeights(bot: BotState, ratings: CardRatings = {}): Record<string, number> {
+  return getInkWeights(bot.pool.map(pick => pick.card), ratings);
+}
+
+/**
+ * The bot's two strongest inks so far (empty before its first pick)
+ */
+export function getBotInks(bot: BotState, ratings: CardRatings = {}): string[] {
+  if (bot.pool.length === 0) return [];
+  return getTopInks(getBotInkWeights(bot, ratings));
+}
+
+/**
+ * 0..1 — how firmly the bot sticks to its inks. Grows with every pick,
+ * so early picks are mostly on power and late picks mostly on colour.
+ */
+export function getBotCommitment(bot: BotState): number {
+  return getInkCommitment(bot.pool.length);
+}
+
+/**
+ * How much the bot wants a card: its value plus a bonus for the bot's inks
+ */
+export function scoreCardForBot(card: Card, bot: BotState, ratings: CardRatings = {}): number {
+  const inks = getBotInks(bot, ratings);
+  if (!inks.includes(card.color)) {
+    return getCardGrade(card, ratings);
+  }
+
+  const weights = getBotInkWeights(bot, ratings);
+  const affinity = weights[card.color] / Math.max(...inks.map(ink => weights[ink]));
+  return getCardGrade(card, ratings) + COLOR_BONUS * getBotCommitment(bot) * affinity;
+}
+
+/**
+ * Index of the card the bot takes from a pack, breaking ties at random
+ */
+export function chooseBotPick(cards: Card[], bot: BotState, rng: Rng, ratings: CardRatings = {}): number {
+  let bestScore = -Infinity;
+  const bestIndices: number[] = [];
+
+  cards.forEach((card, index) => {
+    const score = scoreCardForBot(card, bot, ratings);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndices.length = 0;
+      bestIndices.push(index);
+    } else if (score === bestScore) {
+      bestIndices.push(index);
+    }
+  });
+
+  return bestIndices.length === 1 ? bestIndices[0] : bestIndices[randomInt(bestIndices.length, rng)];
+}
+
+/**
+ * Short description of the bot's current preference, e.g. "Ruby/Steel"
+ */
+export function describeBotInks(bot: BotState, ratings: CardRatings = {}): string {
+  const inks = getBotInks(bot, ratings);
+  return inks.length > 0 ? inks.join('/') : 'undecided';
+}
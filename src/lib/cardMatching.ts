@@ -0,0 +1,247 @@
+import { Card } from '../types';
+import { splitFullName } from './deckCodecs';
+import { getCardKey, getCardSetCode } from './cardUtils';
+
+export type CardMatchStatus =
+  | 'exact'       // full name (and ink, when given) matched as typed
+  | 'normalized'  // matched once case, punctuation and accents were ignored
+  | 'fuzzy'       // closest name was picked; worth a look
+  | 'ambiguous'   // several cards fit, e.g. one name in two inks or a missing version
+  | 'none';       // nothing close enough
+
+export interface CardSuggestion {
+  card: Card;
+  score: number;        // similarity to the line, 0–1
+}
+
+export interface CardMatch {
+  status: CardMatchStatus;
+  card: Card | null;                // best guess, null when nothing matched
+  suggestions: CardSuggestion[];    // best first, the guess included
+}
+
+export interface CardIndex {
+  printings: Card[];                            // every printing, Enchanted and other duplicates included, for id and set code lookups
+  cards: Card[];                                // base printings, one per normalized full name and ink
+  byFullName: Map<string, Card[]>;              // normalized full name -> cards
+  byName: Map<string, Card[]>;                  // normalized name without version -> cards
+  normalizedFullNames: Map<Card, string>;
+}
+
+/**
+ * Suggestions listed per line
+ */
+const SUGGESTION_COUNT = 5;
+
+/**
+ * Similarity below which a card isn't suggested at all
+ */
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * Similarity a fuzzy match needs to be picked without asking
+ */
+const AUTO_MATCH_SCORE = 0.85;
+
+/**
+ * Lower-case a card name, spell out "&" and strip accents, curly quotes and
+ * punctuation, so "Maui – Half-Shark" and "maui half shark" compare equal
+ */
+export function normalizeCardName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['‘’ʼ`´]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Index every printing for matching: names match against the base printings,
+ * one per normalized full name and ink; ids and set codes can point at any printing
+ */
+export function buildCardIndex(allCards: Card[]): CardIndex {
+  const unique = new Map<string, Card>();
+  allCards
+    .filter(card => card.baseCard !== false)
+    .forEach(card => {
+      const key = `${normalizeCardName(card.fullName)}|${card.color}`;
+      if (!unique.has(key)) {
+        unique.set(key, card);
+      }
+    });
+
+  const cards = Array.from(unique.values());
+  const byFullName = new Map<string, Card[]>();
+  const byName = new Map<string, Card[]>();
+  const normalizedFullNames = new Map<Card, string>();
+  const add = (map: Map<string, Card[]>, key: string, card: Card) => {
+    map.set(key, [...(map.get(key) ?? []), card]);
+  };
+  cards.forEach(card => {
+    const fullName = normalizeCardName(card.fullName);
+    normalizedFullNames.set(card, fullName);
+    add(byFullName, fullName, card);
+    add(byName, normalizeCardName(splitFullName(card.fullName).name), card);
+  });
+
+  return { printings: allCards, cards, byFullName, byName, normalizedFullNames };
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 0–1 similarity of two normalized names
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Cards ranked by similarity to a normalized query, compared with both the
+ * full name and the name alone so "Stitch Rock Star" still finds its card.
+ * A query that starts a card's name ("Magica" for "Magica De Spell") counts
+ * as a close match.
+ */
+function rankSuggestions(index: CardIndex, query: string, color: string | null): CardSuggestion[] {
+  return index.cards
+    .map(card => {
+      const fullName = index.normalizedFullNames.get(card) ?? '';
+      const name = normalizeCardName(splitFullName(card.fullName).name);
+      let score = Math.max(similarity(query, fullName), similarity(query, name) * 0.9);
+      if (fullName.startsWith(`${query} `)) score = Math.max(score, AUTO_MATCH_SCORE);
+      if (color && card.color !== color) score *= 0.8;
+      return { card, score };
+    })
+    .filter(({ score }) => score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score || a.card.fullName.localeCompare(b.card.fullName))
+    .slice(0, SUGGESTION_COUNT);
+}
+
+/**
+ * Pick out the candidates in the given ink, if any are
+ */
+function preferInk(candidates: Card[], color: string | null): Card[] {
+  if (!color) return candidates;
+  const inInk = candidates.filter(card => card.color === color);
+  return inInk.length > 0 ? inInk : candidates;
+}
+
+/**
+ * Match one deck list line to a card: exact name first, then the normalized
+ * full name, then the name without its version, then the closest spelling.
+ */
+export function matchCardName(index: CardIndex, fullName: string, color: string | null = null): CardMatch {
+  const query = normalizeCardName(fullName);
+  const asSuggestions = (cards: Card[], score: number) => cards.map(card => ({ card, score }));
+
+  const exact = index.cards.filter(card => card.fullName === fullName && (!color || card.color === color));
+  if (exact.length === 1) {
+    return { status: 'exact', card: exact[0], suggestions: asSuggestions(exact, 1) };
+  }
+
+  const sameFullName = preferInk(index.byFullName.get(query) ?? [], color);
+  if (sameFullName.length === 1) {
+    return { status: 'normalized', card: sameFullName[0], suggestions: asSuggestions(sameFullName, 1) };
+  }
+  if (sameFullName.length > 1) {
+    return { status: 'ambiguous', card: sameFullName[0], suggestions: asSuggestions(sameFullName, 1) };
+  }
+
+  const sameName = preferInk(index.byName.get(query) ?? [], color);
+  if (sameName.length > 0) {
+    return {
+      status: sameName.length === 1 ? 'normalized' : 'ambiguous',
+      card: sameName[0],
+      suggestions: asSuggestions(sameName, 1),
+    };
+  }
+
+  const suggestions = rankSuggestions(index, query, color);
+  if (suggestions.length === 0) {
+    return { status: 'none', card: null, suggestions };
+  }
+  const [best, runnerUp] = suggestions;
+  const clearWinner = best.score >= AUTO_MATCH_SCORE && (!runnerUp || runnerUp.score < best.score);
+  return { status: clearWinner ? 'fuzzy' : 'ambiguous', card: best.card, suggestions };
+}
+
+export interface DeckLine {
+  count: number;
+  fullName: string;               // may be empty when the line only has a code
+  color: string | null;           // ink written on the line, if any
+  id?: number | string;           // card id, from our JSON export
+  cardCode?: string;              // short card code, e.g. "zk"
+  setCode?: string;               // set and collector number, e.g. "10" and 101
+  number?: number;
+  source?: string;                // the line as written
+}
+
+export interface DeckLineMatch extends DeckLine {
+  match: CardMatch;
+}
+
+/**
+ * The printing a line's id or set code points at, if any
+ */
+function findByIdentifier(index: CardIndex, line: DeckLine): Card | undefined {
+  if (line.id !== undefined) {
+    const byId = index.printings.find(card => getCardKey(card.id) === getCardKey(line.id as number | string));
+    if (byId) return byId;
+  }
+  if (line.cardCode) {
+    const code = line.cardCode.toLowerCase();
+    const byCode = index.printings.find(card => card.code?.toLowerCase() === code);
+    if (byCode) return byCode;
+  }
+  if (line.number !== undefined) {
+    // Collector numbers repeat across sets, so without a set the line's name has to agree
+    if (line.setCode) {
+      return index.printings.find(card => card.number === line.number && getCardSetCode(card) === line.setCode);
+    }
+    const name = normalizeCardName(line.fullName);
+    return index.printings.find(card => card.number === line.number && normalizeCardName(card.fullName) === name);
+  }
+  return undefined;
+}
+
+/**
+ * Match every line of a parsed deck list: by id or set code when the line
+ * has one, otherwise by name
+ */
+export function matchDeckLines(index: CardIndex, lines: DeckLine[]): DeckLineMatch[] {
+  return lines.map(line => {
+    const printing = findByIdentifier(index, line);
+    const match: CardMatch = printing
+      ? { status: 'exact', card: printing, suggestions: [{ card: printing, score: 1 }] }
+      : matchCardName(index, line.fullName, line.color);
+    return { ...line, fullName: line.fullName || (printing?.fullName ?? ''), match };
+  });
+}
+
+/**
+ * Whether a match should be looked at before importing
+ */
+export function needsReview(match: CardMatch): boolean {
+  return match.status === 'fuzzy' || match.status === 'ambiguous' || match.status === 'none';
+}
@@ -0,0 +1,65 @@
+import { Card } from '../types';
+
+/**
+ * Key a card is stored and looked up under, in ratings and the cards table (ids can be numbers or strings)
+ */
+export function getCardKey(id: Card['id']): string {
+  return String(id);
+}
+
+/**
+ * The set a card belongs to, from the last part of its identifier ("1/204 • EN • 10" -> "10")
+ */
+export function getCardSetCode(card: Card): string {
+  const parts = (card.fullIdentifier ?? '').split('•');
+  return parts[parts.length - 1].trim() || 'unknown';
+}
+
+/**
+ * Quote a CSV field when it holds a comma, quote or line break
+ */
+export const escapeCsvField = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
@@ -0,0 +1,57 @@
+import { Card, CardRatings } from '../types';
+import { getCardKey } from './cardUtils';
+
+/**
+ * Get numeric rarity value for comparison (higher = rarer)
+ */
+export function getRarityValue(rarity: string | undefined): number {
+  if (!rarity) return 0; // Unknown rarity is treated as lowest
+  
+  const rarityMap: Record<string, number> = {
+    'Common': 1,
+    'Uncommon': 2,
+    'Rare': 3,
+    'Super Rare': 4,
+    'Legendary': 5,
+    'Epic': 6,
+    'Iconic': 7,
+    'Enchanted': 8,
+    'Special': 9,
+  };
+  
+  return rarityMap[rarity] || 0;
+}
+
+const KEYWORD_BONUS: Record<string, number> = {
+  'Evasive': 0.4,
+  'Ward': 0.3,
+  'Challenger': 0.2,
+  'Rush': 0.2,
+  'Resist': 0.2,
+  'Bodyguard': 0.1,
+  'Support': 0.1,
+};
+
+/**
+ * Rough 0–5 grade for a card, for when nobody has rated it.
+ * Leans on rarity (higher rarities are usually stronger in limited)
+ * plus a small bonus for keywords that matter most in sealed.
+ */
+export function estimateCardValue(card: Card): number {
+  // Alternate printings (Enchanted, Epic...) share their base card's strength
+  const rarity = Math.min(getRarityValue(card.rarity), 5);
+  let value = 1.5 + rarity * 0.4;
+
+  (card.keywordAbilities ?? []).forEach(keyword => {
+    value += KEYWORD_BONUS[keyword] ?? 0;
+  });
+
+  return Math.max(0, Math.min(5, value));
+}
+
+/**
+ * A card's 0–5 grade: the team's rating when there is one, otherwise the estimate
+ */
+export function getCardGrade(card: Card, ratings: CardRatings = {}): number {
+  return ratings[getCardKey(card.id)] ?? estimateCardValue(card);
+}
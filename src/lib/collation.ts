@@ -0,0 +1,183 @@
+import { Card, CollationProfile, PackSlot } from '../types';
+import { Rng, randomInt } from './random';
+
+/**
+ * Every rarity that appears in the set data, lowest to highest
+ */
+export const RARITIES = [
+  'Common',
+  'Uncommon',
+  'Rare',
+  'Super Rare',
+  'Legendary',
+  'Epic',
+  'Iconic',
+  'Enchanted',
+  'Special',
+];
+
+/**
+ * Approximation of a 12-card Lorcana booster: 6 commons, 3 uncommons,
+ * 2 rare-or-better slots and 1 foil that can be any rarity.
+ */
+export const LORCANA_BOOSTER_PROFILE: CollationProfile = {
+  id: 'lorcana-booster',
+  name: 'Lorcana booster',
+  slots: [
+    { name: 'Commons', count: 6, weights: { Common: 1 } },
+    { name: 'Uncommons', count: 3, weights: { Uncommon: 1 } },
+    { name: 'Rare or better', count: 2, weights: { Rare: 72, 'Super Rare': 20, Legendary: 8 } },
+    {
+      name: 'Foil',
+      count: 1,
+      foil: true,
+      weights: {
+        Common: 50,
+        Uncommon: 25,
+        Rare: 12,
+        'Super Rare': 6,
+        Legendary: 3,
+        Epic: 2.5,
+        Enchanted: 1.2,
+        Iconic: 0.3,
+      },
+    },
+  ],
+};
+
+export const BUILT_IN_COLLATION_PROFILES: CollationProfile[] = [LORCANA_BOOSTER_PROFILE];
+
+/**
+ * Total number of cards the profile's slots add up to
+ */
+export function getProfileCardCount(profile: CollationProfile): number {
+  return profile.slots.reduce((sum, slot) => sum + slot.count, 0);
+}
+
+/**
+ * Validate a collation profile, returning a list of human-readable problems (empty when valid)
+ */
+export function validateCollationProfile(profile: CollationProfile): string[] {
+  const errors: string[] = [];
+
+  if (!profile.name.trim()) {
+    errors.push('Profile needs a name.');
+  }
+  if (profile.slots.length === 0) {
+    errors.push('Profile needs at least one slot.');
+  }
+
+  profile.slots.forEach((slot, idx) => {
+    const label = slot.name.trim() || `Slot ${idx + 1}`;
+    if (!Number.isInteger(slot.count) || slot.count < 1) {
+      errors.push(`${label}: card count must be at least 1.`);
+    }
+    const weights = Object.values(slot.weights);
+    if (weights.some(weight => !(weight >= 0))) {
+      errors.push(`${label}: rarity weights can't be negative.`);
+    } else if (!weights.some(weight => weight > 0)) {
+      errors.push(`${label}: give at least one rarity a weight above 0.`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Stretch or shrink the profile's slots to the pack size. Extra cards are
+ * trimmed from the first slots (commons) so the rarer slots survive in
+ * smaller packs; missing cards are added to the first slot.
+ */
+function fitSlotsToPackSize(slots: PackSlot[], packSize: number): PackSlot[] {
+  const fitted = slots.map(slot => ({ ...slot }));
+  if (fitted.length === 0) return fitted;
+
+  let excess = getProfileCardCount({ id: '', name: '', slots: fitted }) - packSize;
+  if (excess < 0) {
+    fitted[0].count -= excess;
+    return fitted;
+  }
+
+  for (const slot of fitted) {
+    if (excess === 0) break;
+    const trimmed = Math.min(slot.count, excess);
+    slot.count -= trimmed;
+    excess -= trimmed;
+  }
+
+  return fitted;
+}
+
+/**
+ * Pick a key from a weight table, ignoring keys with no weight
+ */
+function pickWeighted(weights: Record<string, number>, rng: Rng): string | null {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return null;
+
+  let roll = rng() * total;
+  for (const [key, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return key;
+  }
+  return entries[entries.length - 1][0];
+}
+
+/**
+ * Group cards by rarity
+ */
+function groupByRarity(cards: Card[]): Map<string, Card[]> {
+  const groups = new Map<string, Card[]>();
+  cards.forEach(card => {
+    const rarity = card.rarity || 'Unknown';
+    if (!groups.has(rarity)) {
+      groups.set(rarity, []);
+    }
+    groups.get(rarity)!.push(card);
+  });
+  return groups;
+}
+
+/**
+ * Build one pack by filling each slot with cards of a weighted-random rarity.
+ *
+ * Regular slots draw from base cards only; foil slots draw from every
+ * printing (Enchanted, Iconic, Epic...) and mark the card as foil.
+ * A card is never repeated within a pack unless its rarity has run out.
+ */
+export function collatePack(
+  allCards: Card[],
+  profile: CollationProfile,
+  packSize: number,
+  rng: Rng
+): Card[] {
+  const baseByRarity = groupByRarity(allCards.filter(card => card.baseCard !== false));
+  const allByRarity = groupByRarity(allCards);
+  const pack: Card[] = [];
+  const usedIds = new Set<Card['id']>();
+
+  for (const slot of fitSlotsToPackSize(profile.slots, packSize)) {
+    const byRarity = slot.foil ? allByRarity : baseByRarity;
+
+    // Only weigh rarities this set actually has
+    const weights: Record<string, number> = {};
+    Object.entries(slot.weights).forEach(([rarity, weight]) => {
+      if (byRarity.has(rarity)) weights[rarity] = weight;
+    });
+
+    for (let i = 0; i < slot.count; i++) {
+      const rarity = pickWeighted(weights, rng);
+      const candidates = rarity ? byRarity.get(rarity)! : Array.from(byRarity.values()).flat();
+      if (candidates.length === 0) continue;
+
+      const unused = candidates.filter(card => !usedIds.has(card.id));
+      const source = unused.length > 0 ? unused : candidates;
+      const card = source[randomInt(source.length, rng)];
+      usedIds.add(card.id);
+      pack.push(slot.foil ? { ...card, foil: true } : card);
+    }
+  }
+
+  return pack;
+}
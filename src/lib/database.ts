@@ -1,6 +1,20 @@
 import initSqlJs from 'sql.js';
 import type { SqlJsDatabase } from 'sql.js';
-import { DraftState, Card } from '../types';
+import { DraftState, Card, CardRating, CollationProfile } from '../types';
+import { getCardKey } from './cardUtils';
+import { LegacyDraftState, canRewind, normalizeDraftState, replayDraft } from './draft';
+import {
+  DeckCardCount,
+  StoredDraft,
+  collectDraftCards,
+  dehydrateDraftState,
+  fromDeckCardCounts,
+  hydrateDraftState,
+  hydrateLegacyDraftState,
+  isLegacyStoredDraft,
+  isStoredDraft,
+  toDeckCardCounts,
+} from './serialization';
 
 type NavigatorStorageLike = {
   getDirectory?: () => Promise<FileSystemDirectoryHandleLike>;
@@ -27,13 +41,22 @@ const DB_FILE_NAME = 'lorcana.sqlite';
 
 let db: SqlJsDatabase | null = null;
 let dbFileHandlePromise: Promise<FileSystemFileHandleLike | null> | null = null;
+// card_json of every row in the cards table, so unchanged cards aren't rewritten on each save
+let storedCardJson: Map<string, string> | null = null;
+// Export waiting for draft autosaves to settle
+let pendingSave: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * How long draft autosaves wait for further picks before exporting the database
+ */
+const AUTOSAVE_DELAY_MS = 2000;
 
 export interface SavedDeck {
   id: number;
   name: string;
   created_at: string;
   total_cards: number;
-  cards_json: string;
+  cards: Card[];            // rebuilt from card_counts_json and the cards table
   draft_id: number | null;
 }
 
@@ -41,7 +64,16 @@ export interface SavedDraft {
   id: number;
   name: string;
   created_at: string;
-  draft_state_json: string;
+  draft_state: DraftState;  // rebuilt from draft_json and the cards table
+}
+
+export interface DeckVersion {
+  id: number;
+  deck_id: number;
+  created_at: string;
+  note: string;             // optional description of the change, '' when none was given
+  total_cards: number;
+  cards: Card[];            // rebuilt from card_counts_json and the cards table
 }
 
 function getNavigatorStorage(): NavigatorStorageLike | null {
@@ -160,6 +192,398 @@ function writeDatabaseToLocalStorage(data: Uint8Array): void {
   }
 }
 
+/**
+ * Whether a table has a column
+ */
+function hasColumn(database: SqlJsDatabase, table: string, column: string): boolean {
+  const tableInfo = database.exec(`PRAGMA table_info(${table})`);
+  if (tableInfo.length === 0) return false;
+  // PRAGMA table_info returns columns: cid, name, type, notnull, dflt_value, pk
+  return tableInfo[0].values.some(row => row[1] === column);
+}
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (database: SqlJsDatabase) => void;
+}
+
+/**
+ * Schema changes in the order they were made; append new ones with the next
+ * version and never edit one that has shipped. Databases from before
+ * schema_version existed start at version 0 and already have some of these
+ * tables, so the first migrations only create what's missing.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Saved decks and drafts',
+    up: database => {
+      database.run(`
+        CREATE TABLE IF NOT EXISTS saved_decks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          total_cards INTEGER NOT NULL,
+          cards_json TEXT NOT NULL,
+          draft_id INTEGER
+        );
+      `);
+      database.run(`
+        CREATE TABLE IF NOT EXISTS saved_drafts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          draft_state_json TEXT NOT NULL
+        );
+      `);
+      if (!hasColumn(database, 'saved_decks', 'draft_id')) {
+        database.run('ALTER TABLE saved_decks ADD COLUMN draft_id INTEGER');
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'Pack collation profiles',
+    up: database => {
+      database.run(`
+        CREATE TABLE IF NOT EXISTS collation_profiles (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          profile_json TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    // Cards live once in the cards table; decks keep card-id counts and
+    // drafts keep config, pack contents and actions by card id
+    version: 3,
+    name: 'Normalized card storage',
+    up: database => {
+      database.run(`
+        CREATE TABLE IF NOT EXISTS cards (
+          id TEXT PRIMARY KEY,
+          card_json TEXT NOT NULL
+        );
+      `);
+      if (!hasColumn(database, 'saved_decks', 'card_counts_json')) {
+        database.run('ALTER TABLE saved_decks ADD COLUMN card_counts_json TEXT');
+      }
+      if (!hasColumn(database, 'saved_drafts', 'draft_json')) {
+        database.run('ALTER TABLE saved_drafts ADD COLUMN draft_json TEXT');
+      }
+      migrateToNormalizedStorage(database);
+    },
+  },
+  {
+    version: 4,
+    name: 'Card ratings',
+    up: database => {
+      database.run(`
+        CREATE TABLE IF NOT EXISTS card_ratings (
+          set_code TEXT NOT NULL,
+          card_id TEXT NOT NULL,
+          grade REAL NOT NULL,
+          notes TEXT NOT NULL DEFAULT '',
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (set_code, card_id)
+        );
+      `);
+    },
+  },
+  {
+    // Every card list a deck has had, newest last; saved_decks keeps the
+    // current one. Existing decks start their history with their current cards.
+    version: 5,
+    name: 'Deck versions',
+    up: database => {
+      database.run(`
+        CREATE TABLE IF NOT EXISTS deck_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          deck_id INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          note TEXT NOT NULL DEFAULT '',
+          total_cards INTEGER NOT NULL,
+          card_counts_json TEXT NOT NULL
+        );
+      `);
+      database.run('CREATE INDEX IF NOT EXISTS deck_versions_deck_id ON deck_versions (deck_id)');
+      database.run(`
+        INSERT INTO deck_versions (deck_id, created_at, note, total_cards, card_counts_json)
+        SELECT id, created_at, '', total_cards, card_counts_json FROM saved_decks
+        WHERE card_counts_json IS NOT NULL AND id NOT IN (SELECT deck_id FROM deck_versions)
+      `);
+    },
+  },
+  {
+    // Drafts keep their dealt packs and pick history instead of the card pool
+    // and full logs, and are rebuilt by replaying the picks
+    version: 6,
+    name: 'Drafts stored as packs and picks',
+    up: database => {
+      const drafts = database.exec('SELECT id, draft_json FROM saved_drafts WHERE draft_json IS NOT NULL');
+      if (drafts.length === 0) return;
+      const cards = readCards(database);
+      for (const [id, draftJson] of drafts[0].values) {
+        try {
+          const stored = JSON.parse(draftJson as string);
+          if (!isLegacyStoredDraft(stored)) continue;
+          const state = normalizeDraftState(hydrateLegacyDraftState(stored, cards));
+          database.run('UPDATE saved_drafts SET draft_json = ? WHERE id = ?', [JSON.stringify(storeDraftState(state)), id]);
+        } catch (err) {
+          console.error(`[database] Failed to migrate saved draft ${id}:`, err);
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Schema version this build of the app writes
+ */
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Latest migration applied to a database, 0 for one from before schema_version existed
+ */
+function getSchemaVersion(database: SqlJsDatabase): number {
+  const table = database.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='schema_version'");
+  if (table.length === 0 || table[0].values.length === 0) return 0;
+  const result = database.exec('SELECT MAX(version) FROM schema_version');
+  return (result[0]?.values[0]?.[0] as number | null) ?? 0;
+}
+
+/**
+ * Bring a database up to SCHEMA_VERSION. Each migration runs in its own
+ * transaction and is recorded in schema_version; one that fails is rolled
+ * back and stops the upgrade, leaving the database at the last version that
+ * applied. Databases written by a newer app are refused rather than touched.
+ * Returns whether any migration ran.
+ */
+function migrateDatabase(database: SqlJsDatabase): boolean {
+  const current = getSchemaVersion(database);
+  if (current > SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${current} is newer than this app supports (${SCHEMA_VERSION}). Please update the app.`
+    );
+  }
+
+  database.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const pending = MIGRATIONS.filter(m => m.version > current);
+  for (const migration of pending) {
+    database.run('BEGIN TRANSACTION');
+    try {
+      migration.up(database);
+      database.run(
+        'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+      database.run('COMMIT');
+    } catch (err) {
+      database.run('ROLLBACK');
+      // Cards written by the rolled-back migration are gone again
+      storedCardJson = null;
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+  return pending.length > 0;
+}
+
+/**
+ * Move decks and drafts saved as full JSON into the normalized columns.
+ * Rows that fail to convert are left as they were and still load from the old column.
+ */
+function migrateToNormalizedStorage(database: SqlJsDatabase): void {
+  const decks = database.exec('SELECT id, cards_json FROM saved_decks WHERE card_counts_json IS NULL');
+  if (decks.length > 0) {
+    for (const [id, cardsJson] of decks[0].values) {
+      try {
+        const cards = JSON.parse(cardsJson as string) as Card[];
+        writeCards(database, cards);
+        database.run(
+          "UPDATE saved_decks SET card_counts_json = ?, cards_json = '' WHERE id = ?",
+          [JSON.stringify(toDeckCardCounts(cards)), id]
+        );
+      } catch (err) {
+        console.error(`[database] Failed to migrate saved deck ${id}:`, err);
+      }
+    }
+  }
+
+  const drafts = database.exec('SELECT id, draft_state_json FROM saved_drafts WHERE draft_json IS NULL');
+  if (drafts.length > 0) {
+    for (const [id, draftStateJson] of drafts[0].values) {
+      try {
+        const state = normalizeDraftState(JSON.parse(draftStateJson as string) as LegacyDraftState);
+        writeCards(database, collectDraftCards(state));
+        database.run(
+          "UPDATE saved_drafts SET draft_json = ?, draft_state_json = '' WHERE id = ?",
+          [JSON.stringify(storeDraftState(state)), id]
+        );
+      } catch (err) {
+        console.error(`[database] Failed to migrate saved draft ${id}:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Stored form of a draft saved by an older version of the app. Its picks are
+ * replayed first, and it keeps a snapshot if they or the bots' picks come out different.
+ */
+function storeDraftState(state: DraftState): StoredDraft {
+  const pickKeys = (draft: DraftState) => JSON.stringify([
+    draft.picks.map(card => getCardKey(card.id)),
+    draft.bots.map(bot => bot.pool.map(pick => getCardKey(pick.card.id))),
+  ]);
+  let replays = false;
+  if (canRewind(state)) {
+    try {
+      replays = pickKeys(replayDraft(state)) === pickKeys(state);
+    } catch (err) {
+      console.warn('[database] Saved draft does not replay, keeping its snapshot:', err);
+    }
+  }
+  return dehydrateDraftState(state, !replays);
+}
+
+/**
+ * Write cards to the cards table, skipping ones already stored unchanged
+ */
+function writeCards(database: SqlJsDatabase, cards: Card[]): void {
+  if (!storedCardJson) {
+    storedCardJson = new Map();
+    const result = database.exec('SELECT id, card_json FROM cards');
+    if (result.length > 0) {
+      for (const [id, cardJson] of result[0].values) {
+        storedCardJson.set(id as string, cardJson as string);
+      }
+    }
+  }
+
+  for (const card of cards) {
+    const key = getCardKey(card.id);
+    const cardJson = JSON.stringify(card);
+    if (storedCardJson.get(key) === cardJson) continue;
+    database.run('INSERT OR REPLACE INTO cards (id, card_json) VALUES (?, ?)', [key, cardJson]);
+    storedCardJson.set(key, cardJson);
+  }
+}
+
+/**
+ * Every stored card, keyed by getCardKey
+ */
+function readCards(database: SqlJsDatabase): Map<string, Card> {
+  const cards = new Map<string, Card>();
+  const result = database.exec('SELECT id, card_json FROM cards');
+  if (result.length > 0) {
+    for (const [id, cardJson] of result[0].values) {
+      cards.set(id as string, JSON.parse(cardJson as string) as Card);
+    }
+  }
+  return cards;
+}
+
+/**
+ * Rebuild a saved deck from a saved_decks row
+ */
+function loadDeckRow(row: Record<string, any>, cards: Map<string, Card>): SavedDeck {
+  return {
+    id: row.id,
+    name: row.name,
+    created_at: row.created_at,
+    total_cards: row.total_cards,
+    draft_id: row.draft_id ?? null,
+    cards: row.card_counts_json
+      ? fromDeckCardCounts(JSON.parse(row.card_counts_json) as DeckCardCount[], cards)
+      : JSON.parse(row.cards_json) as Card[],
+  };
+}
+
+/**
+ * Rebuild a deck version from a deck_versions row
+ */
+function loadDeckVersionRow(row: Record<string, any>, cards: Map<string, Card>): DeckVersion {
+  return {
+    id: row.id,
+    deck_id: row.deck_id,
+    created_at: row.created_at,
+    note: row.note,
+    total_cards: row.total_cards,
+    cards: fromDeckCardCounts(JSON.parse(row.card_counts_json) as DeckCardCount[], cards),
+  };
+}
+
+/**
+ * Keep a copy of a deck's card list in its history
+ */
+function recordDeckVersion(
+  database: SqlJsDatabase,
+  deckId: number,
+  cardCountsJson: string,
+  totalCards: number,
+  note: string
+): void {
+  database.run(
+    'INSERT INTO deck_versions (deck_id, created_at, note, total_cards, card_counts_json) VALUES (?, ?, ?, ?, ?)',
+    [deckId, new Date().toISOString(), note.trim(), totalCards, cardCountsJson]
+  );
+}
+
+/**
+ * Rebuild the DraftState stored in a saved_drafts row
+ */
+function loadDraftState(row: Record<string, any>, cards: Map<string, Card>): DraftState {
+  if (row.draft_json) {
+    const stored = JSON.parse(row.draft_json) as StoredDraft;
+    if (isStoredDraft(stored)) {
+      return normalizeDraftState(hydrateDraftState(stored, cards));
+    }
+    if (isLegacyStoredDraft(stored)) {
+      return normalizeDraftState(hydrateLegacyDraftState(stored, cards));
+    }
+  }
+  return normalizeDraftState(JSON.parse(row.draft_state_json) as LegacyDraftState);
+}
+
+/**
+ * Rebuild a saved draft from a saved_drafts row
+ */
+function loadDraftRow(row: Record<string, any>, cards: Map<string, Card>): SavedDraft {
+  return {
+    id: row.id,
+    name: row.name,
+    created_at: row.created_at,
+    draft_state: loadDraftState(row, cards),
+  };
+}
+
+/**
+ * Turn a query result into one object per row, keyed by column name
+ */
+function toRowObjects(result: ReturnType<SqlJsDatabase['exec']>): Array<Record<string, any>> {
+  if (result.length === 0) return [];
+  const { columns, values } = result[0];
+  return values.map((row: any[]) => {
+    const obj: Record<string, any> = {};
+    columns.forEach((col: string, idx: number) => {
+      obj[col] = row[idx];
+    });
+    return obj;
+  });
+}
+
 async function initDatabase(): Promise<SqlJsDatabase> {
   if (db) return db;
 
@@ -171,52 +595,29 @@ async function initDatabase(): Promise<SqlJsDatabase> {
     const fileData = await readDatabaseFromFile();
     const localStorageData = fileData ? null : readDatabaseFromLocalStorage();
 
+    let database: SqlJsDatabase;
     if (fileData) {
-      db = new SQL.Database(fileData);
+      database = new SQL.Database(fileData);
     } else if (localStorageData) {
-      db = new SQL.Database(localStorageData);
+      database = new SQL.Database(localStorageData);
     } else {
-      db = new SQL.Database();
+      database = new SQL.Database();
     }
 
-    db.run(`
-      CREATE TABLE IF NOT EXISTS saved_decks (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        total_cards INTEGER NOT NULL,
-        cards_json TEXT NOT NULL,
-        draft_id INTEGER
-      );
-    `);
-
-    db.run(`
-      CREATE TABLE IF NOT EXISTS saved_drafts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        draft_state_json TEXT NOT NULL
-      );
-    `);
-
-    // Ensure draft_id column exists on saved_decks
-    const deckTableInfo = db.exec("PRAGMA table_info(saved_decks)");
-    let hasDraftIdColumn = false;
-    if (deckTableInfo.length > 0) {
-      const values = deckTableInfo[0].values;
-      for (const row of values) {
-        // PRAGMA table_info returns columns: cid, name, type, notnull, dflt_value, pk
-        if (row[1] === 'draft_id') {
-          hasDraftIdColumn = true;
-          break;
-        }
-      }
-    }
-    if (!hasDraftIdColumn) {
-      db.run('ALTER TABLE saved_decks ADD COLUMN draft_id INTEGER');
+    // Only keep the database once it's upgraded, so a failed or refused
+    // upgrade is retried rather than skipped on the next call
+    const upgraded = migrateDatabase(database);
+    db = database;
+
+    // Write out an autosave still waiting when the page is hidden or closed
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', flushPendingSave);
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') flushPendingSave();
+      });
     }
 
-    if (!fileData) {
+    if (!fileData || upgraded) {
       await saveDatabase();
     }
 
@@ -228,6 +629,10 @@ async function initDatabase(): Promise<SqlJsDatabase> {
 }
 
 async function saveDatabase(): Promise<void> {
+  if (pendingSave) {
+    clearTimeout(pendingSave);
+    pendingSave = null;
+  }
   if (!db) return;
 
   try {
@@ -241,27 +646,48 @@ async function saveDatabase(): Promise<void> {
   }
 }
 
+/**
+ * Export the database once autosaves stop coming in. Exporting copies the
+ * whole database, too much to do on every pick.
+ */
+function scheduleSaveDatabase(): void {
+  if (pendingSave) clearTimeout(pendingSave);
+  pendingSave = setTimeout(() => {
+    void saveDatabase();
+  }, AUTOSAVE_DELAY_MS);
+}
+
+/**
+ * Export now if an autosave is waiting
+ */
+function flushPendingSave(): void {
+  if (pendingSave) void saveDatabase();
+}
+
 export async function saveDeck(name: string, cards: Card[], draftId?: number | null): Promise<number> {
   try {
     const database = await initDatabase();
     
-    const cardsJson = JSON.stringify(cards);
+    const cardCountsJson = JSON.stringify(toDeckCardCounts(cards));
     const createdAt = new Date().toISOString();
     const totalCards = cards.length;
 
+    writeCards(database, cards);
     database.run(
-      'INSERT INTO saved_decks (name, created_at, total_cards, cards_json, draft_id) VALUES (?, ?, ?, ?, ?)',
-      [name, createdAt, totalCards, cardsJson, draftId ?? null]
+      "INSERT INTO saved_decks (name, created_at, total_cards, cards_json, card_counts_json, draft_id) VALUES (?, ?, ?, '', ?, ?)",
+      [name, createdAt, totalCards, cardCountsJson, draftId ?? null]
     );
 
-    await saveDatabase();
-
     // Get the last inserted ID
     const result = database.exec('SELECT last_insert_rowid() as id');
     if (result.length === 0 || result[0].values.length === 0) {
       throw new Error('Failed to get inserted deck ID');
     }
-    return result[0].values[0][0] as number;
+    const deckId = result[0].values[0][0] as number;
+    recordDeckVersion(database, deckId, cardCountsJson, totalCards, '');
+
+    await saveDatabase();
+    return deckId;
   } catch (err) {
     console.error('Error saving deck:', err);
     throw new Error(`Failed to save deck: ${err instanceof Error ? err.message : String(err)}`);
@@ -272,19 +698,17 @@ export async function getAllDecks(): Promise<SavedDeck[]> {
   const database = await initDatabase();
   
   const result = database.exec('SELECT * FROM saved_decks ORDER BY created_at DESC');
-  
-  if (result.length === 0) return [];
-
-  const columns = result[0].columns;
-  const values = result[0].values;
+  const cards = readCards(database);
 
-  return values.map((row: any[]) => {
-    const deck: any = {};
-    columns.forEach((col: string, idx: number) => {
-      deck[col] = row[idx];
-    });
-    return deck as SavedDeck;
-  });
+  const decks: SavedDeck[] = [];
+  for (const row of toRowObjects(result)) {
+    try {
+      decks.push(loadDeckRow(row, cards));
+    } catch (err) {
+      console.error(`Error loading deck ${row.id}:`, err);
+    }
+  }
+  return decks;
 }
 
 export async function getDeck(id: number): Promise<SavedDeck | null> {
@@ -293,18 +717,9 @@ export async function getDeck(id: number): Promise<SavedDeck | null> {
     
     // sql.js exec doesn't support parameters, so we need to escape manually
     const result = database.exec(`SELECT * FROM saved_decks WHERE id = ${id}`);
+    const [row] = toRowObjects(result);
     
-    if (result.length === 0 || result[0].values.length === 0) return null;
-
-    const columns = result[0].columns;
-    const row = result[0].values[0];
-    
-    const deck: any = {};
-    columns.forEach((col: string, idx: number) => {
-      deck[col] = row[idx];
-    });
-    
-    return deck as SavedDeck;
+    return row ? loadDeckRow(row, readCards(database)) : null;
   } catch (err) {
     console.error('Error getting deck:', err);
     return null;
@@ -314,6 +729,7 @@ export async function getDeck(id: number): Promise<SavedDeck | null> {
 export async function deleteDeck(id: number): Promise<void> {
   const database = await initDatabase();
   database.run('DELETE FROM saved_decks WHERE id = ?', [id]);
+  database.run('DELETE FROM deck_versions WHERE deck_id = ?', [id]);
   await saveDatabase();
 }
 
@@ -329,14 +745,19 @@ export async function updateDeckName(id: number, newName: string): Promise<void>
 }
 
 /**
- * Update deck cards
+ * Update deck cards, keeping the new list in the deck's history with an optional note
  */
-export async function updateDeckCards(id: number, cards: Card[]): Promise<void> {
+export async function updateDeckCards(id: number, cards: Card[], note = ''): Promise<void> {
   try {
     const database = await initDatabase();
-    const cardsJson = JSON.stringify(cards);
+    const cardCountsJson = JSON.stringify(toDeckCardCounts(cards));
     const totalCards = cards.length;
-    database.run('UPDATE saved_decks SET cards_json = ?, total_cards = ? WHERE id = ?', [cardsJson, totalCards, id]);
+    writeCards(database, cards);
+    database.run(
+      "UPDATE saved_decks SET cards_json = '', card_counts_json = ?, total_cards = ? WHERE id = ?",
+      [cardCountsJson, totalCards, id]
+    );
+    recordDeckVersion(database, id, cardCountsJson, totalCards, note);
     await saveDatabase();
   } catch (err) {
     console.error('Error updating deck cards:', err);
@@ -344,6 +765,48 @@ export async function updateDeckCards(id: number, cards: Card[]): Promise<void>
   }
 }
 
+/**
+ * Every saved version of a deck, newest first
+ */
+export async function getDeckVersions(deckId: number): Promise<DeckVersion[]> {
+  try {
+    const database = await initDatabase();
+    const result = database.exec('SELECT * FROM deck_versions WHERE deck_id = ? ORDER BY id DESC', [deckId]);
+    const cards = readCards(database);
+    return toRowObjects(result).map(row => loadDeckVersionRow(row, cards));
+  } catch (err) {
+    console.error('Error getting deck versions:', err);
+    return [];
+  }
+}
+
+/**
+ * Make an earlier version a deck's current card list. The restore is saved
+ * as a new version, so the list it replaced stays in the history.
+ */
+export async function restoreDeckVersion(deckId: number, versionId: number, note = ''): Promise<void> {
+  try {
+    const database = await initDatabase();
+    const result = database.exec(
+      'SELECT total_cards, card_counts_json FROM deck_versions WHERE id = ? AND deck_id = ?',
+      [versionId, deckId]
+    );
+    const [row] = toRowObjects(result);
+    if (!row) {
+      throw new Error(`Version ${versionId} not found for deck ${deckId}`);
+    }
+    database.run(
+      "UPDATE saved_decks SET cards_json = '', card_counts_json = ?, total_cards = ? WHERE id = ?",
+      [row.card_counts_json, row.total_cards, deckId]
+    );
+    recordDeckVersion(database, deckId, row.card_counts_json, row.total_cards, note);
+    await saveDatabase();
+  } catch (err) {
+    console.error('Error restoring deck version:', err);
+    throw new Error(`Failed to restore deck version: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
 /**
  * Delete all decks that are not assigned to any draft (draft_id IS NULL)
  */
@@ -358,7 +821,8 @@ export async function deleteUnassignedDecks(): Promise<number> {
       count = countResult[0].values[0][0] as number;
     }
     
-    // Delete all unassigned decks
+    // Delete all unassigned decks and their history
+    database.run('DELETE FROM deck_versions WHERE deck_id IN (SELECT id FROM saved_decks WHERE draft_id IS NULL)');
     database.run('DELETE FROM saved_decks WHERE draft_id IS NULL');
     await saveDatabase();
     
@@ -376,12 +840,13 @@ export async function saveDraft(name: string, draftState: DraftState): Promise<n
   try {
     const database = await initDatabase();
     
-    const draftStateJson = JSON.stringify(draftState);
+    const draftJson = JSON.stringify(dehydrateDraftState(draftState));
     const createdAt = new Date().toISOString();
 
+    writeCards(database, collectDraftCards(draftState));
     database.run(
-      'INSERT INTO saved_drafts (name, created_at, draft_state_json) VALUES (?, ?, ?)',
-      [name, createdAt, draftStateJson]
+      "INSERT INTO saved_drafts (name, created_at, draft_state_json, draft_json) VALUES (?, ?, '', ?)",
+      [name, createdAt, draftJson]
     );
 
     await saveDatabase();
@@ -405,19 +870,17 @@ export async function getAllDrafts(): Promise<SavedDraft[]> {
   const database = await initDatabase();
   
   const result = database.exec('SELECT * FROM saved_drafts ORDER BY created_at DESC');
-  
-  if (result.length === 0) return [];
+  const cards = readCards(database);
 
-  const columns = result[0].columns;
-  const values = result[0].values;
-
-  return values.map((row: any[]) => {
-    const draft: any = {};
-    columns.forEach((col: string, idx: number) => {
-      draft[col] = row[idx];
-    });
-    return draft as SavedDraft;
-  });
+  const drafts: SavedDraft[] = [];
+  for (const row of toRowObjects(result)) {
+    try {
+      drafts.push(loadDraftRow(row, cards));
+    } catch (err) {
+      console.error(`Error loading draft ${row.id}:`, err);
+    }
+  }
+  return drafts;
 }
 
 /**
@@ -429,18 +892,9 @@ export async function getDraft(id: number): Promise<SavedDraft | null> {
     
     // sql.js exec doesn't support parameters, so we need to escape manually
     const result = database.exec(`SELECT * FROM saved_drafts WHERE id = ${id}`);
+    const [row] = toRowObjects(result);
     
-    if (result.length === 0 || result[0].values.length === 0) return null;
-
-    const columns = result[0].columns;
-    const row = result[0].values[0];
-    
-    const draft: any = {};
-    columns.forEach((col: string, idx: number) => {
-      draft[col] = row[idx];
-    });
-    
-    return draft as SavedDraft;
+    return row ? loadDraftRow(row, readCards(database)) : null;
   } catch (err) {
     console.error('Error getting draft:', err);
     return null;
@@ -476,12 +930,10 @@ export async function updateDraftName(id: number, newName: string): Promise<void
 export async function getLatestDraftState(): Promise<DraftState | null> {
   try {
     const database = await initDatabase();
-    const result = database.exec('SELECT draft_state_json FROM saved_drafts ORDER BY created_at DESC LIMIT 1');
+    const result = database.exec('SELECT draft_state_json, draft_json FROM saved_drafts ORDER BY created_at DESC LIMIT 1');
+    const [row] = toRowObjects(result);
     
-    if (result.length === 0 || result[0].values.length === 0) return null;
-    
-    const draftStateJson = result[0].values[0][0] as string;
-    return JSON.parse(draftStateJson) as DraftState;
+    return row ? loadDraftState(row, readCards(database)) : null;
   } catch (err) {
     console.error('Error getting latest draft state:', err);
     return null;
@@ -489,7 +941,8 @@ export async function getLatestDraftState(): Promise<DraftState | null> {
 }
 
 /**
- * Save the current draft state (for auto-save/resume)
+ * Save the current draft state (for auto-save/resume). The row is written
+ * now; the database is exported once picks pause.
  */
 export async function saveCurrentDraftState(draftState: DraftState): Promise<void> {
   try {
@@ -498,23 +951,24 @@ export async function saveCurrentDraftState(draftState: DraftState): Promise<voi
     // Check if there's already a draft with name "Current Draft"
     const existing = database.exec(`SELECT id FROM saved_drafts WHERE name = 'Current Draft' LIMIT 1`);
     
-    const draftStateJson = JSON.stringify(draftState);
+    const draftJson = JSON.stringify(dehydrateDraftState(draftState));
     const createdAt = new Date().toISOString();
     
+    writeCards(database, collectDraftCards(draftState));
     if (existing.length > 0 && existing[0].values.length > 0) {
       // Update existing "Current Draft"
       const id = existing[0].values[0][0] as number;
-      database.run('UPDATE saved_drafts SET draft_state_json = ?, created_at = ? WHERE id = ?', 
-        [draftStateJson, createdAt, id]);
+      database.run("UPDATE saved_drafts SET draft_state_json = '', draft_json = ?, created_at = ? WHERE id = ?", 
+        [draftJson, createdAt, id]);
     } else {
       // Create new "Current Draft"
       database.run(
-        'INSERT INTO saved_drafts (name, created_at, draft_state_json) VALUES (?, ?, ?)',
-        ['Current Draft', createdAt, draftStateJson]
+        "INSERT INTO saved_drafts (name, created_at, draft_state_json, draft_json) VALUES (?, ?, '', ?)",
+        ['Current Draft', createdAt, draftJson]
       );
     }
     
-    await saveDatabase();
+    scheduleSaveDatabase();
   } catch (err) {
     console.error('Error saving current draft state:', err);
     // Don't throw - allow the app to continue even if save fails
@@ -528,7 +982,7 @@ export async function clearCurrentDraftState(): Promise<void> {
   try {
     const database = await initDatabase();
     database.run(`DELETE FROM saved_drafts WHERE name = 'Current Draft'`);
-    await saveDatabase();
+    scheduleSaveDatabase();
   } catch (err) {
     console.error('Error clearing current draft state:', err);
   }
@@ -579,8 +1033,9 @@ export async function importDatabase(file: File): Promise<void> {
     });
     
     // Try to open the database file
+    let importedDb: SqlJsDatabase;
     try {
-      const importedDb = new SQL.Database(uint8Array);
+      importedDb = new SQL.Database(uint8Array);
       
       // Verify it has the correct table structure
       const deckTable = importedDb.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='saved_decks'");
@@ -591,22 +1046,123 @@ export async function importDatabase(file: File): Promise<void> {
       if (draftTable.length === 0 || draftTable[0].values.length === 0) {
         throw new Error('Invalid database file: missing saved_drafts table');
       }
-      
-      // Close the current database if it exists
-      if (db) {
-        db.close();
-      }
-      
-      // Replace with the imported database
-      db = importedDb;
-      
-      await saveDatabase();
     } catch (err) {
       throw new Error(`Invalid database file: ${err instanceof Error ? err.message : String(err)}`);
     }
+
+    // Upgrade older files before swapping them in, so a file that can't be
+    // upgraded (or is from a newer app) leaves the current database alone
+    storedCardJson = null;
+    try {
+      migrateDatabase(importedDb);
+    } catch (err) {
+      importedDb.close();
+      throw err;
+    } finally {
+      storedCardJson = null;
+    }
+
+    // Close the current database if it exists
+    if (db) {
+      db.close();
+    }
+
+    // Replace with the imported database
+    db = importedDb;
+    await saveDatabase();
   } catch (err) {
     console.error('Error importing database:', err);
     throw new Error(`Failed to import database: ${err instanceof Error ? err.message : String(err)}`);
   }
 }
 
+
+/**
+ * Get all user-defined pack collation profiles
+ */
+export async function getCollationProfiles(): Promise<CollationProfile[]> {
+  try {
+    const database = await initDatabase();
+    const result = database.exec('SELECT profile_json FROM collation_profiles ORDER BY name ASC');
+
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any[]) => JSON.parse(row[0] as string) as CollationProfile);
+  } catch (err) {
+    console.error('Error getting collation profiles:', err);
+    return [];
+  }
+}
+
+/**
+ * Create or update a user-defined pack collation profile
+ */
+export async function saveCollationProfile(profile: CollationProfile): Promise<void> {
+  try {
+    const database = await initDatabase();
+    database.run(
+      'INSERT OR REPLACE INTO collation_profiles (id, name, updated_at, profile_json) VALUES (?, ?, ?, ?)',
+      [profile.id, profile.name, new Date().toISOString(), JSON.stringify(profile)]
+    );
+    await saveDatabase();
+  } catch (err) {
+    console.error('Error saving collation profile:', err);
+    throw new Error(`Failed to save collation profile: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Delete a user-defined pack collation profile
+ */
+export async function deleteCollationProfile(id: string): Promise<void> {
+  const database = await initDatabase();
+  database.run('DELETE FROM collation_profiles WHERE id = ?', [id]);
+  await saveDatabase();
+}
+
+/**
+ * Get the team's card ratings for a set
+ */
+export async function getCardRatings(setCode: string): Promise<CardRating[]> {
+  try {
+    const database = await initDatabase();
+    const result = database.exec('SELECT card_id, grade, notes FROM card_ratings WHERE set_code = ?', [setCode]);
+    return toRowObjects(result).map(row => ({
+      cardId: row.card_id,
+      grade: row.grade,
+      notes: row.notes,
+    }));
+  } catch (err) {
+    console.error('Error getting card ratings:', err);
+    return [];
+  }
+}
+
+/**
+ * Create or update card ratings for a set
+ */
+export async function saveCardRatings(setCode: string, ratings: CardRating[]): Promise<void> {
+  try {
+    const database = await initDatabase();
+    const updatedAt = new Date().toISOString();
+    ratings.forEach(rating => {
+      database.run(
+        'INSERT OR REPLACE INTO card_ratings (set_code, card_id, grade, notes, updated_at) VALUES (?, ?, ?, ?, ?)',
+        [setCode, getCardKey(rating.cardId), rating.grade, rating.notes, updatedAt]
+      );
+    });
+    await saveDatabase();
+  } catch (err) {
+    console.error('Error saving card ratings:', err);
+    throw new Error(`Failed to save card ratings: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Remove a card's rating, so it falls back to the estimated grade
+ */
+export async function deleteCardRating(setCode: string, cardId: Card['id']): Promise<void> {
+  const database = await initDatabase();
+  database.run('DELETE FROM card_ratings WHERE set_code = ? AND card_id = ?', [setCode, getCardKey(cardId)]);
+  await saveDatabase();
+}
@@ -0,0 +1,190 @@
+import { Card, CardRatings } from '../types';
+import { getCardGrade } from './cardValue';
+import { IDEAL_CURVE } from './advisor';
+import { getCurveBucket, resolveCardType } from './deckUtils';
+import { INKS } from './inks';
+
+export interface DeckBuildScores {
+  quality: number;      // average card grade, 0–1
+  curve: number;        // closeness to the ideal curve, 0–1
+  inkable: number;      // closeness to the target inkable share, 0–1
+  balance: number;      // closeness to the target character share, 0–1
+}
+
+export interface DeckBuild {
+  inks: [string, string];
+  indices: number[];    // positions of the deck's cards in the pool
+  cards: Card[];        // fewer than the deck size when the pool runs short in these inks
+  score: number;        // weighted total, 0–100
+  scores: DeckBuildScores;
+}
+
+export const SEALED_DECK_SIZE = 40;
+
+/**
+ * How much each part of the score counts; they add up to 1
+ */
+const SCORE_WEIGHTS: DeckBuildScores = {
+  quality: 0.55,
+  curve: 0.2,
+  inkable: 0.15,
+  balance: 0.1,
+};
+
+/**
+ * Share of the deck we'd like inkable
+ */
+const TARGET_INKABLE_SHARE = 0.7;
+
+/**
+ * Share of the deck we'd like to be characters; the rest actions, songs, items and locations
+ */
+const TARGET_CHARACTER_SHARE = 0.65;
+
+/**
+ * Swap passes before settling on a build
+ */
+const MAX_IMPROVEMENT_PASSES = 60;
+
+interface Candidate {
+  card: Card;
+  index: number;
+  grade: number;
+  bucket: number;
+  inkable: boolean;
+  character: boolean;
+}
+
+/**
+ * Running totals for a deck, so a swap can be scored without recounting
+ */
+interface DeckTotals {
+  grade: number;
+  curve: Record<number, number>;
+  inkable: number;
+  characters: number;
+}
+
+function toCandidate(card: Card, index: number, ratings: CardRatings): Candidate {
+  return {
+    card,
+    index,
+    grade: getCardGrade(card, ratings),
+    bucket: getCurveBucket(card),
+    inkable: card.inkwell !== false,
+    character: resolveCardType(card) === 'Character',
+  };
+}
+
+function sumTotals(deck: Candidate[]): DeckTotals {
+  const totals: DeckTotals = { grade: 0, curve: {}, inkable: 0, characters: 0 };
+  deck.forEach(entry => adjustTotals(totals, entry, 1));
+  return totals;
+}
+
+function adjustTotals(totals: DeckTotals, entry: Candidate, delta: 1 | -1): void {
+  totals.grade += entry.grade * delta;
+  totals.curve[entry.bucket] = (totals.curve[entry.bucket] ?? 0) + delta;
+  if (entry.inkable) totals.inkable += delta;
+  if (entry.character) totals.characters += delta;
+}
+
+/**
+ * Score a deck from its totals
+ */
+function scoreTotals(totals: DeckTotals, size: number): { score: number; scores: DeckBuildScores } {
+  const quality = totals.grade / size / 5;
+
+  // Total variation distance between the deck's curve and the ideal one
+  const curveDistance = Object.keys(IDEAL_CURVE)
+    .map(Number)
+    .reduce((sum, bucket) => sum + Math.abs((totals.curve[bucket] ?? 0) / size - IDEAL_CURVE[bucket]), 0) / 2;
+  const curve = 1 - curveDistance;
+
+  const inkableShare = totals.inkable / size;
+  const inkable = inkableShare >= TARGET_INKABLE_SHARE ? 1 : inkableShare / TARGET_INKABLE_SHARE;
+
+  const characterShare = totals.characters / size;
+  const balance = 1 - Math.min(1, Math.abs(characterShare - TARGET_CHARACTER_SHARE) / TARGET_CHARACTER_SHARE);
+
+  const scores: DeckBuildScores = { quality, curve, inkable, balance };
+  const score = 100 * (Object.keys(SCORE_WEIGHTS) as Array<keyof DeckBuildScores>)
+    .reduce((sum, key) => sum + SCORE_WEIGHTS[key] * scores[key], 0);
+  return { score, scores };
+}
+
+/**
+ * Best deck in two inks: start from the highest-graded cards, then keep
+ * making the single swap with the bench that raises the score most. When the
+ * pool is short of cards in those inks the deck takes all of them, and its
+ * score is scaled down by how much of the deck is missing.
+ */
+function buildForInks(pool: Card[], inks: [string, string], ratings: CardRatings, deckSize: number): DeckBuild | null {
+  const candidates = pool
+    .map((card, index) => toCandidate(card, index, ratings))
+    .filter(({ card }) => inks.includes(card.color))
+    .sort((a, b) => b.grade - a.grade);
+  if (candidates.length === 0) return null;
+
+  const size = Math.min(deckSize, candidates.length);
+  const deck = candidates.slice(0, size);
+  const bench = candidates.slice(size);
+  const totals = sumTotals(deck);
+  let best = scoreTotals(totals, size);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES && bench.length > 0; pass++) {
+    let bestSwap: { out: number; in: number; score: number } | null = null;
+    for (let out = 0; out < deck.length; out++) {
+      adjustTotals(totals, deck[out], -1);
+      for (let inIdx = 0; inIdx < bench.length; inIdx++) {
+        adjustTotals(totals, bench[inIdx], 1);
+        const { score } = scoreTotals(totals, size);
+        if (score > (bestSwap?.score ?? best.score) + 1e-9) {
+          bestSwap = { out, in: inIdx, score };
+        }
+        adjustTotals(totals, bench[inIdx], -1);
+      }
+      adjustTotals(totals, deck[out], 1);
+    }
+    if (!bestSwap) break;
+
+    const swappedOut = deck[bestSwap.out];
+    adjustTotals(totals, swappedOut, -1);
+    adjustTotals(totals, bench[bestSwap.in], 1);
+    deck[bestSwap.out] = bench[bestSwap.in];
+    bench[bestSwap.in] = swappedOut;
+    best = scoreTotals(totals, size);
+  }
+
+  deck.sort((a, b) => a.index - b.index);
+  return {
+    inks,
+    indices: deck.map(entry => entry.index),
+    cards: deck.map(entry => entry.card),
+    score: best.score * (size / deckSize),
+    scores: best.scores,
+  };
+}
+
+/**
+ * Try every pair of inks and return the best sealed decks: full decks first,
+ * then by score
+ */
+export function buildSealedDecks(
+  pool: Card[],
+  ratings: CardRatings = {},
+  count = 3,
+  deckSize = SEALED_DECK_SIZE
+): DeckBuild[] {
+  const builds: DeckBuild[] = [];
+  INKS.forEach((first, i) => {
+    INKS.slice(i + 1).forEach(second => {
+      const build = buildForInks(pool, [first, second], ratings, deckSize);
+      if (build) builds.push(build);
+    });
+  });
+  const isFull = (build: DeckBuild) => (build.cards.length >= deckSize ? 1 : 0);
+  return builds
+    .sort((a, b) => isFull(b) - isFull(a) || b.score - a.score)
+    .slice(0, count);
+}
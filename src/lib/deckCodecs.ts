@@ -0,0 +1,177 @@
+import { Card } from '../types';
+import { resolveCardType } from './deckUtils';
+import { escapeCsvField, getCardSetCode } from './cardUtils';
+
+export type DeckCodecId = 'count' | 'pixelborn' | 'csv' | 'json';
+
+export interface DeckEntry {
+  card: Card;           // first copy seen; copies are matched by full name
+  count: number;
+}
+
+export interface DeckCodec {
+  id: DeckCodecId;
+  name: string;
+  description: string;
+  extension: string;    // for downloads, without the dot
+  mimeType: string;
+  encode: (cards: Card[], deckName: string) => string;
+}
+
+/**
+ * Version of the JSON deck document, bumped when its shape changes
+ */
+export const DECK_JSON_VERSION = 1;
+
+/**
+ * Copies of each card in a deck, most copies first, then by name
+ */
+export function tallyDeck(cards: Card[]): DeckEntry[] {
+  const entries = new Map<string, DeckEntry>();
+  cards.forEach(card => {
+    const existing = entries.get(card.fullName);
+    if (existing) {
+      existing.count++;
+    } else {
+      entries.set(card.fullName, { card, count: 1 });
+    }
+  });
+  return Array.from(entries.values()).sort(
+    (a, b) => b.count - a.count || a.card.fullName.localeCompare(b.card.fullName)
+  );
+}
+
+/**
+ * Split "Gaston - Arrogant Hunter" into its name and version; cards
+ * without a version (most actions and items) get an empty one
+ */
+export function splitFullName(fullName: string): { name: string; version: string } {
+  const separator = fullName.indexOf(' - ');
+  if (separator === -1) return { name: fullName, version: '' };
+  return { name: fullName.slice(0, separator), version: fullName.slice(separator + 3) };
+}
+
+/**
+ * "4 Gaston - Arrogant Hunter" lines, the text most deckbuilders and simulators read
+ */
+function encodeCountLines(cards: Card[]): string {
+  return tallyDeck(cards).map(({ card, count }) => `${count} ${card.fullName}`).join('\n');
+}
+
+/**
+ * Pixelborn deck code: "Name_Version$count" entries joined by "|", base64 encoded
+ */
+function encodePixelborn(cards: Card[]): string {
+  const text = tallyDeck(cards)
+    .map(({ card, count }) => {
+      const { name, version } = splitFullName(card.fullName);
+      return `${version ? `${name}_${version}` : name}$${count}`;
+    })
+    .join('|');
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+const CSV_HEADER = 'count,name,version,ink,cost,type,inkable,rarity,lore,strength,willpower,keywords,set,number';
+
+/**
+ * One row per card with its attributes, for spreadsheets
+ */
+function encodeCsv(cards: Card[]): string {
+  const rows = tallyDeck(cards).map(({ card, count }) => {
+    const { name, version } = splitFullName(card.fullName);
+    return [
+      String(count),
+      name,
+      version,
+      card.color,
+      card.cost ?? '',
+      resolveCardType(card),
+      card.inkwell === undefined ? '' : card.inkwell ? 'yes' : 'no',
+      card.rarity ?? '',
+      card.lore ?? '',
+      card.strength ?? '',
+      card.willpower ?? '',
+      (card.keywordAbilities ?? []).join('; '),
+      getCardSetCode(card),
+      card.number ?? '',
+    ].map(value => escapeCsvField(String(value))).join(',');
+  });
+  return [CSV_HEADER, ...rows].join('\n');
+}
+
+/**
+ * Structured deck document: { format, version, name, cards: [{ count, id, fullName, ... }] }
+ */
+function encodeJson(cards: Card[], deckName: string): string {
+  return JSON.stringify({
+    format: 'lorcana-deck',
+    version: DECK_JSON_VERSION,
+    name: deckName,
+    cards: tallyDeck(cards).map(({ card, count }) => ({
+      count,
+      id: card.id,
+      fullName: card.fullName,
+      ...splitFullName(card.fullName),
+      ink: card.color,
+      cost: card.cost ?? null,
+      type: resolveCardType(card),
+      inkable: card.inkwell ?? null,
+      rarity: card.rarity ?? null,
+      set: getCardSetCode(card),
+      number: card.number ?? null,
+    })),
+  }, null, 2);
+}
+
+export const DECK_CODECS: DeckCodec[] = [
+  {
+    id: 'count',
+    name: 'Count + name',
+    description: 'Count and full name per line, as Dreamborn, Inktable and Lorcanito export and import',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    encode: encodeCountLines,
+  },
+  {
+    id: 'pixelborn',
+    name: 'Pixelborn',
+    description: 'Base64 deck code for the Pixelborn simulator',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    encode: encodePixelborn,
+  },
+  {
+    id: 'csv',
+    name: 'CSV',
+    description: 'Spreadsheet with one row per card and its ink, cost, type, stats and set number',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    encode: encodeCsv,
+  },
+  {
+    id: 'json',
+    name: 'JSON',
+    description: 'Structured deck document with card ids and attributes',
+    extension: 'json',
+    mimeType: 'application/json',
+    encode: encodeJson,
+  },
+];
+
+/**
+ * Look up a codec by id, falling back to the count list
+ */
+export function getDeckCodec(id: DeckCodecId | string | null | undefined): DeckCodec {
+  return DECK_CODECS.find(codec => codec.id === id) ?? DECK_CODECS[0];
+}
+
+/**
+ * File name for a downloaded deck, e.g. "my-deck.count.txt" or "my-deck.csv"
+ */
+export function getDeckFileName(deckName: string, codec: DeckCodec): string {
+  const slug = deckName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'deck';
+  return codec.id === codec.extension ? `${slug}.${codec.extension}` : `${slug}.${codec.id}.${codec.extension}`;
+}
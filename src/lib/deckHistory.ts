@@ -0,0 +1,42 @@
+import { Card } from '../types';
+import { tallyDeck } from './deckCodecs';
+
+export interface DeckCardChange {
+  card: Card;
+  before: number;       // copies in the older list
+  after: number;        // copies in the newer list
+}
+
+export interface DeckDiff {
+  added: DeckCardChange[];      // cards with more copies in the newer list
+  removed: DeckCardChange[];    // cards with fewer copies in the newer list
+  unchanged: number;            // copies in both lists
+}
+
+/**
+ * What changed between two card lists, copies matched by full name like the
+ * deck exports; each side sorted by the size of the change, then by name
+ */
+export function diffDeckCards(before: Card[], after: Card[]): DeckDiff {
+  const changes = new Map<string, DeckCardChange>();
+  tallyDeck(before).forEach(({ card, count }) => {
+    changes.set(card.fullName, { card, before: count, after: 0 });
+  });
+  tallyDeck(after).forEach(({ card, count }) => {
+    const existing = changes.get(card.fullName);
+    if (existing) {
+      existing.after = count;
+    } else {
+      changes.set(card.fullName, { card, before: 0, after: count });
+    }
+  });
+
+  const bySize = (a: DeckCardChange, b: DeckCardChange) =>
+    Math.abs(b.after - b.before) - Math.abs(a.after - a.before) || a.card.fullName.localeCompare(b.card.fullName);
+  const all = Array.from(changes.values());
+  return {
+    added: all.filter(change => change.after > change.before).sort(bySize),
+    removed: all.filter(change => change.after < change.before).sort(bySize),
+    unchanged: all.reduce((sum, change) => sum + Math.min(change.before, change.after), 0),
+  };
+}
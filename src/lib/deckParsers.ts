@@ -0,0 +1,266 @@
+import { DeckLine } from './cardMatching';
+import { INKS } from './inks';
+import { parseCsv } from './cardUtils';
+
+export type DeckListFormatId = 'json' | 'csv' | 'pixelborn' | 'set-codes' | 'x-count' | 'count';
+
+export interface DeckListFormat {
+  id: DeckListFormatId;
+  name: string;
+  example: string;
+}
+
+export interface ParsedDeckList {
+  format: DeckListFormat;
+  lines: DeckLine[];
+  skipped: string[];      // lines the format couldn't read
+}
+
+export const DECK_LIST_FORMATS: DeckListFormat[] = [
+  { id: 'json', name: 'JSON export', example: '{ "cards": [{ "count": 3, "fullName": "Cinderella - Dream Come True" }] }' },
+  { id: 'csv', name: 'CSV with a header', example: 'count,name,version / 3,Cinderella,Dream Come True' },
+  { id: 'pixelborn', name: 'Pixelborn deck code', example: 'Q2luZGVyZWxsYV9EcmVhbSBDb21lIFRydWUkMw==' },
+  { id: 'set-codes', name: 'Set and number codes', example: '3 10-101 or 3 zk' },
+  { id: 'x-count', name: '"Nx Name" list', example: '3x Cinderella - Dream Come True' },
+  { id: 'count', name: 'Count list', example: '3 Cinderella - Dream Come True' },
+];
+
+const getFormat = (id: DeckListFormatId) => DECK_LIST_FORMATS.find(format => format.id === id) as DeckListFormat;
+
+type LineParser = (line: string) => DeckLine | null;
+
+/**
+ * Split a trailing ink off legacy lines: "Cinderella - Dream Come True - Sapphire"
+ */
+function splitInk(text: string): { fullName: string; color: string | null } {
+  const parts = text.split(' - ');
+  const last = parts[parts.length - 1].trim();
+  if (parts.length >= 2 && INKS.includes(last)) {
+    return { fullName: parts.slice(0, -1).join(' - ').trim(), color: last };
+  }
+  return { fullName: text.trim(), color: null };
+}
+
+/**
+ * "3 Cinderella - Dream Come True", and the older "3 - Cinderella - Dream Come True - Sapphire"
+ */
+const parseCountLine: LineParser = line => {
+  const match = line.match(/^(\d+)\s+(?:-\s+)?(.+)$/);
+  if (!match) return null;
+  const count = parseInt(match[1], 10);
+  const { fullName, color } = splitInk(match[2]);
+  return count > 0 && fullName ? { count, fullName, color, source: line } : null;
+};
+
+/**
+ * "3x Cinderella - Dream Come True" or "Cinderella - Dream Come True x3"
+ */
+const parseXCountLine: LineParser = line => {
+  const leading = line.match(/^(\d+)\s*[x×]\s+(.+)$/i);
+  const trailing = line.match(/^(.+?)\s+[x×]\s*(\d+)$/i);
+  const [countText, nameText] = leading ? [leading[1], leading[2]] : trailing ? [trailing[2], trailing[1]] : [null, null];
+  if (!countText || !nameText) return null;
+  const count = parseInt(countText, 10);
+  const { fullName, color } = splitInk(nameText);
+  return count > 0 && fullName ? { count, fullName, color, source: line } : null;
+};
+
+/**
+ * "3 10-101", "3 10/101 Blessed Bagpipes" or "3x zk": a set and collector number, or a card code
+ */
+const parseSetCodeLine: LineParser = line => {
+  const numbered = line.match(/^(\d+)\s*[x×]?\s+(\d+)\s*[-/#]\s*(\d+)\b\s*(.*)$/i);
+  if (numbered) {
+    const count = parseInt(numbered[1], 10);
+    return count > 0
+      ? { count, fullName: numbered[4].trim(), color: null, setCode: numbered[2], number: parseInt(numbered[3], 10), source: line }
+      : null;
+  }
+  const coded = line.match(/^(\d+)\s*[x×]?\s+([a-z0-9]{2})$/i);
+  if (coded) {
+    const count = parseInt(coded[1], 10);
+    return count > 0 ? { count, fullName: '', color: null, cardCode: coded[2], source: line } : null;
+  }
+  return null;
+};
+
+/**
+ * Line-by-line formats, most specific first so ties go to them
+ */
+const LINE_FORMATS: Array<{ id: DeckListFormatId; parse: LineParser }> = [
+  { id: 'set-codes', parse: parseSetCodeLine },
+  { id: 'x-count', parse: parseXCountLine },
+  { id: 'count', parse: parseCountLine },
+];
+
+/**
+ * Read the list with every line format and keep the one that understood most lines
+ */
+function parseLineList(rows: string[]): ParsedDeckList {
+  const candidates = LINE_FORMATS.map(({ id, parse }) => {
+    const lines: DeckLine[] = [];
+    const skipped: string[] = [];
+    rows.forEach(row => {
+      const parsed = parse(row);
+      if (parsed) {
+        lines.push(parsed);
+      } else {
+        skipped.push(row);
+      }
+    });
+    return { format: getFormat(id), lines, skipped };
+  });
+  return candidates.reduce((best, candidate) => (candidate.lines.length > best.lines.length ? candidate : best));
+}
+
+const toCount = (value: unknown): number => {
+  const count = typeof value === 'number' ? value : parseInt(String(value ?? '1'), 10);
+  return isNaN(count) ? 0 : count;
+};
+
+const joinName = (name: string, version: string) => (version ? `${name} - ${version}` : name);
+
+/**
+ * Our JSON export, or any array of { count|quantity, fullName|name (+ version), ink|color }
+ */
+function parseJsonList(text: string): ParsedDeckList {
+  const data = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.cards) ? data.cards : [];
+  const lines: DeckLine[] = [];
+  const skipped: string[] = [];
+
+  entries.forEach(entry => {
+    const item = (entry ?? {}) as Record<string, unknown>;
+    const count = toCount(item.count ?? item.quantity ?? item.qty);
+    const fullName = typeof item.fullName === 'string'
+      ? item.fullName
+      : joinName(String(item.name ?? ''), String(item.version ?? ''));
+    const ink = item.ink ?? item.color;
+    const number = typeof item.number === 'number' ? item.number : parseInt(String(item.number ?? ''), 10);
+    const line: DeckLine = {
+      count,
+      fullName: fullName.trim(),
+      color: typeof ink === 'string' && INKS.includes(ink) ? ink : null,
+      id: typeof item.id === 'number' || typeof item.id === 'string' ? item.id : undefined,
+      setCode: item.set !== undefined && item.set !== null ? String(item.set) : undefined,
+      number: isNaN(number) ? undefined : number,
+      source: JSON.stringify(entry),
+    };
+    if (count > 0 && (line.fullName || line.id !== undefined)) {
+      lines.push(line);
+    } else {
+      skipped.push(line.source as string);
+    }
+  });
+
+  return { format: getFormat('json'), lines, skipped };
+}
+
+const CSV_COLUMNS = {
+  count: ['count', 'quantity', 'qty', 'amount', 'copies'],
+  fullName: ['fullname', 'full name', 'card', 'card name'],
+  name: ['name'],
+  version: ['version', 'subtitle', 'title'],
+  color: ['ink', 'color', 'colour'],
+  set: ['set', 'set code'],
+  number: ['number', 'collector number', 'no', '#'],
+};
+
+/**
+ * CSV with a header row naming at least a name column; rows count once
+ * each unless there's a count column
+ */
+function parseCsvList(text: string): ParsedDeckList | null {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return null;
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const column = (names: string[]) => header.findIndex(cell => names.includes(cell));
+  const columns = {
+    count: column(CSV_COLUMNS.count),
+    fullName: column(CSV_COLUMNS.fullName),
+    name: column(CSV_COLUMNS.name),
+    version: column(CSV_COLUMNS.version),
+    color: column(CSV_COLUMNS.color),
+    set: column(CSV_COLUMNS.set),
+    number: column(CSV_COLUMNS.number),
+  };
+  if (columns.fullName === -1 && columns.name === -1) return null;
+
+  const cell = (row: string[], index: number) => (index === -1 ? '' : (row[index] ?? '').trim());
+  const lines: DeckLine[] = [];
+  const skipped: string[] = [];
+  rows.slice(1).forEach(row => {
+    const count = columns.count === -1 ? 1 : toCount(cell(row, columns.count));
+    const fullName = columns.fullName !== -1
+      ? cell(row, columns.fullName)
+      : joinName(cell(row, columns.name), cell(row, columns.version));
+    const color = cell(row, columns.color);
+    const number = parseInt(cell(row, columns.number), 10);
+    if (count > 0 && fullName) {
+      lines.push({
+        count,
+        fullName,
+        color: INKS.includes(color) ? color : null,
+        setCode: cell(row, columns.set) || undefined,
+        number: isNaN(number) ? undefined : number,
+        source: row.join(','),
+      });
+    } else {
+      skipped.push(row.join(','));
+    }
+  });
+  return { format: getFormat('csv'), lines, skipped };
+}
+
+/**
+ * Pixelborn deck code: base64 of "Name_Version$count" entries joined by "|"
+ */
+function parsePixelborn(text: string): ParsedDeckList | null {
+  if (!/^[A-Za-z0-9+/]+=*$/.test(text)) return null;
+  let decoded: string;
+  try {
+    const binary = atob(text);
+    decoded = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch (err) {
+    return null;
+  }
+  if (!decoded.includes('$')) return null;
+
+  const lines: DeckLine[] = [];
+  const skipped: string[] = [];
+  decoded.split('|').forEach(entry => {
+    const match = entry.match(/^(.+)\$(\d+)$/);
+    if (match) {
+      lines.push({ count: parseInt(match[2], 10), fullName: match[1].replace('_', ' - '), color: null, source: entry });
+    } else if (entry.trim()) {
+      skipped.push(entry);
+    }
+  });
+  return { format: getFormat('pixelborn'), lines, skipped };
+}
+
+/**
+ * Work out which format a pasted deck list is in and read it: JSON, CSV with
+ * a header, a Pixelborn code, or a line list (set codes, "3x Name" or "3 Name")
+ */
+export function parseDeckList(text: string): ParsedDeckList {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseJsonList(trimmed);
+  }
+
+  const rows = trimmed.split(/\r?\n/).map(row => row.trim()).filter(Boolean);
+
+  if (rows.length === 1) {
+    const pixelborn = parsePixelborn(rows[0]);
+    if (pixelborn) return pixelborn;
+  }
+
+  if (rows.length > 1 && rows[0].includes(',')) {
+    const csv = parseCsvList(trimmed);
+    if (csv) return csv;
+  }
+
+  return parseLineList(rows);
+}
@@ -2,6 +2,7 @@ import type { Card } from '../types';
 
 export declare function resolveCardType(card: Card): string;
 export declare function hasKeyword(card: Card, keyword: string): boolean;
+export declare function isRemoval(card: Card): boolean;
 export declare function matchesFilters(card: Card, filters?: CardFilters): boolean;
 
 export type CardFilters = {
@@ -36,6 +37,23 @@ export declare function buildDisplayGroups(
   filteredCards: Card[];
 };
 
+export type DeckStats = {
+  total: number;
+  curveByInk: Record<string, Record<number, number>>;
+  curve: Record<number, number>;
+  inkable: number;
+  uninkable: number;
+  characters: number;
+  averageLore: number;
+  totalLore: number;
+  types: Array<{ type: string; count: number }>;
+  keywords: Array<{ keyword: string; count: number }>;
+};
+
+export declare function getCurveBucket(card: Card): number;
+
+export declare function getDeckStats(cards: Card[]): DeckStats;
+
 export declare const __TYPE_ORDER: readonly string[];
 
 
@@ -40,6 +40,21 @@ export function hasKeyword(card, keyword) {
   return card.keywordAbilities.some(k => k.toLowerCase() === target);
 }
 
+/**
+ * Rules text that deals with an opponent's card: banishing it, returning it
+ * to hand, or damaging it.
+ */
+const REMOVAL_PATTERN = /\b(banish|return|deal\s+\d+\s+damage\s+to|put\s+\d+\s+damage\s+counters?\s+on)\s+chosen\s+(?!character\s+of\s+yours)(opposing\s+)?(damaged\s+)?(character|item|location)/i;
+
+/**
+ * Check if a card can remove or damage an opposing card, from its rules text.
+ * @param {Card} card
+ * @returns {boolean}
+ */
+export function isRemoval(card) {
+  return REMOVAL_PATTERN.test(card.fullText || '');
+}
+
 /**
  * @typedef {Object} CardFilters
  * @property {string[]} [colors]
@@ -192,6 +207,87 @@ export function buildDisplayGroups(cards, filters = {}, sortOption = 'default')
   };
 }
 
+/**
+ * Highest cost with its own bucket in the curve; anything above counts as this.
+ */
+const MAX_CURVE_COST = 7;
+
+/**
+ * Curve bucket for a card: its cost, with 0 counted as 1 and 7+ together.
+ * @param {Card} card
+ * @returns {number}
+ */
+export function getCurveBucket(card) {
+  return Math.max(1, Math.min(MAX_CURVE_COST, typeof card.cost === 'number' ? card.cost : 0));
+}
+
+/**
+ * @typedef {Object} DeckStats
+ * @property {number} total
+ * @property {Record<string, Record<number, number>>} curveByInk ink -> cost (7 = 7+) -> count
+ * @property {Record<number, number>} curve cost (7 = 7+) -> count
+ * @property {number} inkable
+ * @property {number} uninkable
+ * @property {number} characters
+ * @property {number} averageLore lore per character
+ * @property {number} totalLore lore on every character and location
+ * @property {{ type: string, count: number }[]} types in the primary Lorcana order
+ * @property {{ keyword: string, count: number }[]} keywords most common first
+ */
+
+/**
+ * Summarize a pool or deck: curve by ink, inkwell split, lore and type/keyword counts.
+ * @param {Card[]} cards
+ * @returns {DeckStats}
+ */
+export function getDeckStats(cards) {
+  /** @type {Record<string, Record<number, number>>} */
+  const curveByInk = {};
+  /** @type {Record<number, number>} */
+  const curve = {};
+  const keywords = new Map();
+  let inkable = 0;
+  let characters = 0;
+  let characterLore = 0;
+  let totalLore = 0;
+
+  cards.forEach(card => {
+    const bucket = getCurveBucket(card);
+    const ink = card.color || 'Unknown';
+    curveByInk[ink] = curveByInk[ink] || {};
+    curveByInk[ink][bucket] = (curveByInk[ink][bucket] || 0) + 1;
+    curve[bucket] = (curve[bucket] || 0) + 1;
+
+    if (card.inkwell !== false) inkable++;
+
+    const lore = typeof card.lore === 'number' ? card.lore : 0;
+    totalLore += lore;
+    if (resolveCardType(card) === 'Character') {
+      characters++;
+      characterLore += lore;
+    }
+
+    (card.keywordAbilities || []).forEach(keyword => {
+      keywords.set(keyword, (keywords.get(keyword) || 0) + 1);
+    });
+  });
+
+  return {
+    total: cards.length,
+    curveByInk,
+    curve,
+    inkable,
+    uninkable: cards.length - inkable,
+    characters,
+    averageLore: characters > 0 ? characterLore / characters : 0,
+    totalLore,
+    types: groupCardsByType(cards).map(group => ({ type: group.type, count: group.cards.length })),
+    keywords: Array.from(keywords.entries())
+      .map(([keyword, count]) => ({ keyword, count }))
+      .sort((a, b) => b.count - a.count || a.keyword.localeCompare(b.keyword)),
+  };
+}
+
 export const __TYPE_ORDER = TYPE_ORDER;
 
 
@@ -0,0 +1,102 @@
+import { Card } from '../types';
+
+export type DeckFormatId = 'limited' | 'constructed';
+
+export interface DeckFormat {
+  id: DeckFormatId;
+  name: string;
+  minCards: number;
+  maxCopies: number | null;   // per card name; null = no limit
+  maxInks: number;
+  legalityFormat?: string;    // key in a card's allowedInFormats that must be allowed
+}
+
+export interface DeckValidation {
+  legal: boolean;             // no errors (warnings don't count)
+  errors: string[];
+  warnings: string[];
+}
+
+export const DECK_FORMATS: DeckFormat[] = [
+  { id: 'limited', name: 'Limited', minCards: 40, maxCopies: null, maxInks: 2 },
+  { id: 'constructed', name: 'Constructed', minCards: 60, maxCopies: 4, maxInks: 2, legalityFormat: 'Core' },
+];
+
+/**
+ * Share of a deck below which we warn that too few cards can go into the inkwell
+ */
+const MIN_INKABLE_SHARE = 0.5;
+
+/**
+ * Look up a deck format by id, falling back to limited
+ */
+export function getDeckFormat(id: DeckFormatId | undefined): DeckFormat {
+  return DECK_FORMATS.find(format => format.id === id) ?? DECK_FORMATS[0];
+}
+
+/**
+ * Check a deck against a format's rules. Errors make it illegal; warnings
+ * point out things that are allowed but probably unintended.
+ */
+export function validateDeck(cards: Card[], formatId: DeckFormatId): DeckValidation {
+  const format = getDeckFormat(formatId);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (cards.length < format.minCards) {
+    errors.push(`${format.name} decks need at least ${format.minCards} cards (${cards.length} selected).`);
+  } else if (cards.length > format.minCards) {
+    warnings.push(`${cards.length - format.minCards} card${cards.length - format.minCards === 1 ? '' : 's'} over the ${format.minCards}-card minimum.`);
+  }
+
+  const inks = Array.from(new Set(cards.map(card => card.color).filter(Boolean))).sort();
+  if (inks.length > format.maxInks) {
+    errors.push(`At most ${format.maxInks} inks allowed (deck has ${inks.length}: ${inks.join(', ')}).`);
+  }
+
+  if (format.maxCopies !== null) {
+    const copies = new Map<string, number>();
+    cards.forEach(card => copies.set(card.fullName, (copies.get(card.fullName) ?? 0) + 1));
+    copies.forEach((count, name) => {
+      if (count > format.maxCopies!) {
+        errors.push(`${name}: ${count} copies (max ${format.maxCopies}).`);
+      }
+    });
+  }
+
+  if (format.legalityFormat) {
+    const legalityFormat = format.legalityFormat;
+    const banned = new Set<string>();
+    const unknown = new Set<string>();
+    // Cards from a set that isn't tournament-legal yet are marked not allowed
+    // until their date; those are a warning, not banned cards
+    const notYetLegal = new Map<string, Set<string>>();
+    cards.forEach(card => {
+      const entry = card.allowedInFormats?.[legalityFormat];
+      if (!entry) {
+        unknown.add(card.fullName);
+      } else if (!entry.allowed && card.allowedInTournamentsFromDate) {
+        const names = notYetLegal.get(card.allowedInTournamentsFromDate) ?? new Set<string>();
+        notYetLegal.set(card.allowedInTournamentsFromDate, names.add(card.fullName));
+      } else if (!entry.allowed) {
+        banned.add(card.fullName);
+      }
+    });
+    banned.forEach(name => errors.push(`${name} is not legal in ${legalityFormat}.`));
+    notYetLegal.forEach((names, date) => {
+      warnings.push(`${names.size} card${names.size === 1 ? '' : 's'} not marked legal in ${legalityFormat} yet (tournament-legal from ${date}).`);
+    });
+    if (unknown.size > 0) {
+      warnings.push(`${legalityFormat} legality unknown for ${unknown.size} card${unknown.size === 1 ? '' : 's'}.`);
+    }
+  }
+
+  if (cards.length > 0) {
+    const inkable = cards.filter(card => card.inkwell !== false).length;
+    if (inkable / cards.length < MIN_INKABLE_SHARE) {
+      warnings.push(`Only ${inkable} of ${cards.length} cards are inkable.`);
+    }
+  }
+
+  return { legal: errors.length === 0, errors, warnings };
+}
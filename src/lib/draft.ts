@@ -1,91 +1,310 @@
-import { Card, DraftState, Pack, RoundState, PickLogEntry } from '../types';
-import { sampleWithoutReplacement, randomInt, deepClone } from './random';
+import { BotState, Card, CardRatings, DraftConfig, DraftState, LoggedRemoval, Pack, RoundState, PickLogEntry, RemovalRecord } from '../types';
+import { sampleWithoutReplacement, deepClone, deriveRng, generateSeed } from './random';
+import { getCardKey } from './cardUtils';
+import { collatePack } from './collation';
+import { getRemovalStrategy } from './removal';
+import { createBots } from './bots';
+import { summarizeRound } from './roundSummary';
 
 /**
- * Get numeric rarity value for comparison (higher = rarer)
+ * The house format: 6 rounds of 6 packs, 12 cards each, 1 pick and 1 removal per turn
  */
-function getRarityValue(rarity: string | undefined): number {
-  if (!rarity) return 0; // Unknown rarity is treated as lowest
-  
-  const rarityMap: Record<string, number> = {
-    'Common': 1,
-    'Uncommon': 2,
-    'Rare': 3,
-    'Super Rare': 4,
-    'Legendary': 5,
-    'Epic': 6,
-    'Iconic': 7,
-    'Enchanted': 8,
-    'Special': 9,
-  };
-  
-  return rarityMap[rarity] || 0;
+export const DEFAULT_DRAFT_CONFIG: DraftConfig = {
+  rounds: 6,
+  packsPerRound: 6,
+  packSize: 12,
+  picksPerTurn: 1,
+  removalsPerTurn: 1,
+};
+
+export interface ReplayStep {
+  pickIndex: number;     // 0-based index into the draft's log
+  round: number;
+  turn: number;
+  packIndex: number;     // the pack I picked from (0-based)
+  pack: Card[];          // that pack as it looked just before the pick
+  cardIndex: number;     // position of the picked card in pack
+  picked: Card;
+  removed: Array<{ packIndex: number; record: RemovalRecord }>; // what left the other packs after the pick
 }
 
 /**
- * Find the index of a rarest card in the pack
- * If multiple cards have the same highest rarity, returns a random one among them
+ * What a draft is saved as: the rest of a DraftState follows from replaying
+ * pickHistory over the dealt packs (see replayDraft)
  */
-function findRarestCardIndex(cards: Card[]): number {
-  if (cards.length === 0) return -1;
-  
-  // Find the highest rarity value
-  let maxRarity = -1;
-  const rarestIndices: number[] = [];
-  
-  cards.forEach((card, index) => {
-    const rarityValue = getRarityValue(card.rarity);
-    if (rarityValue > maxRarity) {
-      maxRarity = rarityValue;
-      rarestIndices.length = 0; // Clear previous indices
-      rarestIndices.push(index);
-    } else if (rarityValue === maxRarity) {
-      rarestIndices.push(index);
+export type DraftRecord = Pick<DraftState, 'config' | 'seed' | 'dealtPacks' | 'ratings' | 'pickHistory' | 'redoStack'>;
+
+/**
+ * Drafts saved before dealtPacks kept the whole card pool and dealt each round from it
+ */
+export type LegacyDraftState = Omit<DraftState, 'dealtPacks'> & { masterCards?: Card[]; dealtPacks?: Card[][][] };
+
+export interface DraftPreset {
+  id: string;
+  name: string;
+  description: string;
+  config: DraftConfig;
+}
+
+export const DRAFT_PRESETS: DraftPreset[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: '6 rounds × 6 packs × 12 cards',
+    config: DEFAULT_DRAFT_CONFIG,
+  },
+  {
+    id: 'practice',
+    name: 'Practice',
+    description: '3 rounds × 4 packs × 8 cards',
+    config: { rounds: 3, packsPerRound: 4, packSize: 8, picksPerTurn: 1, removalsPerTurn: 1 },
+  },
+  {
+    id: 'double-pick',
+    name: 'Double Pick',
+    description: '6 rounds × 6 packs × 12 cards, 2 picks and 2 removals per turn',
+    config: { rounds: 6, packsPerRound: 6, packSize: 12, picksPerTurn: 2, removalsPerTurn: 2 },
+  },
+  {
+    id: 'league',
+    name: 'League',
+    description: '8 rounds × 8 packs × 16 cards',
+    config: { rounds: 8, packsPerRound: 8, packSize: 16, picksPerTurn: 1, removalsPerTurn: 1 },
+  },
+  {
+    id: 'pod',
+    name: 'Pod Draft',
+    description: 'Pass the pack: 8 seats, 4 rounds of 12-card packs',
+    config: { mode: 'pod', rounds: 4, packsPerRound: 8, packSize: 12, picksPerTurn: 1, removalsPerTurn: 1 },
+  },
+];
+
+/**
+ * Short description of a draft's format, e.g. "Pod draft • 8 seats"
+ */
+export function describeDraftFormat(config: DraftConfig): string {
+  if (config.mode === 'pod') {
+    return `Pod draft • ${config.packsPerRound} seats • ${config.rounds} rounds of ${config.packSize}-card packs`;
+  }
+  return `Shared packs • ${config.rounds} rounds × ${config.packsPerRound} packs × ${config.packSize} cards`;
+}
+
+/**
+ * Cards the other seats take from each non-active pack per turn.
+ * In a pod every bot picks as many cards as I do.
+ */
+export function getRemovalsPerTurn(config: DraftConfig): number {
+  return config.mode === 'pod' ? config.picksPerTurn : config.removalsPerTurn;
+}
+
+/**
+ * Walk one round using only card counts (which don't depend on randomness)
+ * to find how many turns and picks it takes, and whether the active pack
+ * ever runs dry while other packs still hold cards.
+ */
+function simulateRound(config: DraftConfig): { turns: number; picks: number; stranded: boolean } {
+  if (config.picksPerTurn < 1 || config.packsPerRound < 1) {
+    return { turns: 0, picks: 0, stranded: true };
+  }
+
+  const counts: number[] = new Array(config.packsPerRound).fill(config.packSize);
+  let turns = 0;
+  let picks = 0;
+
+  while (counts.some(count => count > 0)) {
+    const activeIndex = getPackIndexForSeat(0, turns + 1, 1, config);
+    if (counts[activeIndex] === 0) {
+      return { turns, picks, stranded: true };
     }
-  });
-  
-  // If multiple cards have the same highest rarity, pick one randomly
-  if (rarestIndices.length === 1) {
-    return rarestIndices[0];
+
+    turns++;
+    const taken = Math.min(config.picksPerTurn, counts[activeIndex]);
+    counts[activeIndex] -= taken;
+    picks += taken;
+
+    for (let i = 0; i < counts.length; i++) {
+      if (i === activeIndex) continue;
+      counts[i] -= Math.min(getRemovalsPerTurn(config), counts[i]);
+    }
+  }
+
+  return { turns, picks, stranded: false };
+}
+
+/**
+ * Number of turns it takes to empty every pack in a round
+ */
+export function getTurnsPerRound(config: DraftConfig): number {
+  return simulateRound(config).turns;
+}
+
+/**
+ * Number of cards I pick in a single round
+ */
+export function getPicksPerRound(config: DraftConfig): number {
+  return simulateRound(config).picks;
+}
+
+/**
+ * Validate a draft config, returning a list of human-readable problems (empty when valid)
+ */
+export function validateDraftConfig(config: DraftConfig): string[] {
+  const errors: string[] = [];
+  const checkRange = (value: number, label: string, min: number, max: number) => {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${label} must be a whole number between ${min} and ${max}.`);
+    }
+  };
+
+  checkRange(config.rounds, 'Rounds', 1, 12);
+  if (config.mode === 'pod') {
+    checkRange(config.packsPerRound, 'Seats', 2, 12);
   } else {
-    return rarestIndices[randomInt(rarestIndices.length)];
+    checkRange(config.packsPerRound, 'Packs per round', 1, 12);
+  }
+  checkRange(config.packSize, 'Pack size', 1, 30);
+  checkRange(config.picksPerTurn, 'Picks per turn', 1, Math.max(1, config.packSize));
+  checkRange(config.removalsPerTurn, 'Removals per turn', 0, Math.max(0, config.packSize));
+
+  if (errors.length === 0 && simulateRound(config).stranded) {
+    errors.push('The active pack runs out while other packs still hold cards. Try fewer picks or more removals per turn.');
   }
+
+  return errors;
 }
 
 /**
- * Create a new draft state with the first round initialized
+ * Fill in fields that drafts saved before they existed don't have
  */
-export function createNewDraft(masterCards: Card[]): DraftState {
-  const round1 = createRound(1, masterCards);
-  
+export function normalizeDraftState(state: DraftState | LegacyDraftState): DraftState {
+  const config = state.config ?? DEFAULT_DRAFT_CONFIG;
+  const seed = state.seed ?? generateSeed();
+  const normalized: DraftState & { undoBuffer?: unknown; masterCards?: Card[] } = {
+    ...state,
+    config,
+    seed,
+    dealtPacks: state.dealtPacks ?? dealPacks((state as LegacyDraftState).masterCards ?? [], config, seed),
+    picksThisTurn: state.picksThisTurn ?? 0,
+    rounds: state.rounds.map(round => ({
+      ...round,
+      packs: round.packs.map(pack => ({ ...pack, removedLog: pack.removedLog ?? [] })),
+    })),
+    log: state.log.map(entry =>
+      entry.removed && (entry.removed.length > 0 || entry.removedCounts === 0)
+        ? entry
+        : { ...entry, removed: entry.removedCounts > 0 ? findTurnRemovals(state, entry.round, entry.turn) : [] }
+    ),
+    bots: state.bots ?? [],
+    ratings: state.ratings ?? {},
+    pickHistory: state.pickHistory ?? [],
+    redoStack: state.redoStack ?? [],
+  };
+  // Older drafts kept a nested snapshot of the previous state for undo,
+  // and the card pool the packs were dealt from
+  delete normalized.undoBuffer;
+  delete normalized.masterCards;
+
+  // Summaries for finished rounds can be rebuilt from the log (imported decks have none)
+  const finishedRounds = normalized.isComplete ? normalized.currentRound : normalized.currentRound - 1;
+  if (!normalized.roundSummaries || normalized.roundSummaries.length < finishedRounds) {
+    normalized.roundSummaries = normalized.log.length > 0
+      ? Array.from({ length: finishedRounds }, (_, idx) => summarizeRound(normalized, idx + 1))
+      : [];
+  }
+  return normalized;
+}
+
+/**
+ * Cards removed from the other packs at the end of a turn, rebuilt from the
+ * packs' removal logs (for drafts logged before removals were listed per pick)
+ */
+function findTurnRemovals(state: DraftState | LegacyDraftState, round: number, turn: number): LoggedRemoval[] {
+  const roundState = state.rounds.find(r => r.roundNumber === round);
+  if (!roundState) return [];
+  const removed: LoggedRemoval[] = [];
+  roundState.packs.forEach((pack, packIndex) => {
+    (pack.removedLog ?? [])
+      .filter(record => record.turn === turn)
+      .forEach(({ card, strategy, reason }) => removed.push({ packIndex, card, strategy, reason }));
+  });
+  return removed;
+}
+
+/**
+ * Create a new draft state with the first round initialized.
+ * Drafts created from the same seed and config deal identical packs.
+ * The grades of the dealt cards are copied into the draft so replays see the same grades.
+ */
+export function createNewDraft(
+  masterCards: Card[],
+  config: DraftConfig = DEFAULT_DRAFT_CONFIG,
+  seed: string = generateSeed(),
+  ratings: CardRatings = {}
+): DraftState {
+  const dealtPacks = dealPacks(masterCards, config, seed);
+  const dealtRatings: CardRatings = {};
+  dealtPacks.forEach(round => round.forEach(pack => pack.forEach(card => {
+    const key = getCardKey(card.id);
+    if (ratings[key] !== undefined) dealtRatings[key] = ratings[key];
+  })));
+  return startDraft({ config, seed, dealtPacks, ratings: dealtRatings });
+}
+
+/**
+ * A draft before its first pick, with the first round open
+ */
+function startDraft({ config, seed, dealtPacks, ratings }: Omit<DraftRecord, 'pickHistory' | 'redoStack'>): DraftState {
+  const bots = config.mode === 'pod' || getRemovalStrategy(config.removalStrategy).usesBots
+    ? createBots(config.packsPerRound - 1)
+    : [];
+
   return {
-    masterCards,
-    rounds: [round1],
+    dealtPacks,
+    config,
+    seed,
+    rounds: [openRound(1, dealtPacks)],
     currentRound: 1,
     currentTurn: 1,
+    picksThisTurn: 0,
     picks: [],
+    bots,
+    ratings: { ...ratings },
     log: [],
+    roundSummaries: [],
     isComplete: false,
-    undoBuffer: null,
+    pickHistory: [],
+    redoStack: [],
   };
 }
 
 /**
- * Create a new round with 6 packs of 12 cards each
+ * Deal every round's packs, config.packsPerRound packs of config.packSize
+ * cards each. The same cards, config and seed always deal the same packs.
  */
-function createRound(roundNumber: number, masterCards: Card[]): RoundState {
-  const packs: Pack[] = [];
-  
-  for (let i = 1; i <= 6; i++) {
-    // Sample 12 cards with replacement across packs, without replacement within a pack
-    const cards = sampleWithoutReplacement(masterCards, 12);
-    packs.push({
-      id: `R${roundNumber}P${i}`,
-      cards,
-      removedLog: [],
-    });
-  }
-  
+export function dealPacks(masterCards: Card[], config: DraftConfig, seed: string): Card[][][] {
+  const baseCards = masterCards.filter(card => card.baseCard !== false);
+  return Array.from({ length: config.rounds }, (_, roundIdx) => {
+    const rng = deriveRng(seed, 'round', roundIdx + 1);
+    // Collated packs follow the profile's rarity slots; otherwise sample cards
+    // with replacement across packs, without replacement within a pack
+    return Array.from({ length: config.packsPerRound }, () => (
+      config.collation
+        ? collatePack(masterCards, config.collation, config.packSize, rng)
+        : sampleWithoutReplacement(baseCards, config.packSize, rng)
+    ));
+  });
+}
+
+/**
+ * Open a round's dealt packs
+ */
+function openRound(roundNumber: number, dealtPacks: Card[][][]): RoundState {
+  const packs: Pack[] = (dealtPacks[roundNumber - 1] ?? []).map((cards, idx) => ({
+    id: `R${roundNumber}P${idx + 1}`,
+    cards: [...cards],
+    removedLog: [],
+  }));
+
   return {
     roundNumber,
     packs,
@@ -93,11 +312,51 @@ function createRound(roundNumber: number, masterCards: Card[]): RoundState {
   };
 }
 
+/**
+ * Copy a draft state to change. The dealt packs never change, so the copy shares them.
+ */
+function cloneDraftState(state: DraftState): DraftState {
+  return { ...deepClone({ ...state, dealtPacks: [] }), dealtPacks: state.dealtPacks };
+}
+
+/**
+ * Direction packs travel in a pod round: odd rounds pass left (to the next
+ * seat), even rounds pass right
+ */
+export function getPassDirection(round: number): 1 | -1 {
+  return round % 2 === 1 ? 1 : -1;
+}
+
+/**
+ * Index of the pack in front of a seat (0 = me) on a given turn (0-based).
+ *
+ * Shared mode: I visit the packs in order, turn k -> pack k, and the seat k
+ * places after me gets the pack k places after mine.
+ * Pod mode: seat s opens pack s, and after each turn every pack moves one
+ * seat in the round's passing direction.
+ */
+export function getPackIndexForSeat(seat: number, turn: number, round: number, config: DraftConfig): number {
+  const packCount = config.packsPerRound;
+  const offset = config.mode === 'pod'
+    ? -getPassDirection(round) * (turn - 1)
+    : turn - 1;
+  return (((seat + offset) % packCount) + packCount) % packCount;
+}
+
 /**
  * Get the active pack index for the current turn (0-based)
  */
-export function getActivePackIndex(turn: number): number {
-  return ((turn - 1) % 6);
+export function getActivePackIndex(state: DraftState): number {
+  return getPackIndexForSeat(0, state.currentTurn, state.currentRound, state.config);
+}
+
+/**
+ * The bot drafting a pack this turn, if any
+ */
+export function getBotForPack(state: DraftState, packIndex: number): BotState | undefined {
+  return state.bots.find(
+    bot => getPackIndexForSeat(bot.id, state.currentTurn, state.currentRound, state.config) === packIndex
+  );
 }
 
 /**
@@ -107,36 +366,71 @@ export function pickCard(
   state: DraftState,
   cardIndex: number
 ): DraftState {
-  // Save undo buffer
-  const newState = deepClone(state);
-  newState.undoBuffer = deepClone(state);
-  
+  const newState = cloneDraftState(state);
+  applyPick(newState, cardIndex);
+  newState.pickHistory.push(cardIndex);
+  newState.redoStack = [];
+  return newState;
+}
+
+/**
+ * Make a pick in place: take the card, run the other seats' removals and
+ * advance the turn/round. Shared by pickCard and history replay.
+ */
+function applyPick(newState: DraftState, cardIndex: number): void {
+  const { config } = newState;
   const currentRound = newState.rounds[newState.rounds.length - 1];
-  const packIndex = getActivePackIndex(newState.currentTurn);
+  const packIndex = getActivePackIndex(newState);
   const activePack = currentRound.packs[packIndex];
   
   // Remove the picked card
   const [pickedCard] = activePack.cards.splice(cardIndex, 1);
   newState.picks.push(pickedCard);
+  newState.picksThisTurn++;
+
+  // The turn ends once I've made all my picks (or emptied the active pack)
+  const turnComplete =
+    newState.picksThisTurn >= config.picksPerTurn || activePack.cards.length === 0;
   
-  // Remove 1 card from each other non-empty pack
-  // 50% chance: random removal
-  // 50% chance: remove the rarest card
-  let removedCount = 0;
-  for (let i = 0; i < currentRound.packs.length; i++) {
-    if (i === packIndex) continue;
-    const pack = currentRound.packs[i];
-    if (pack.cards.length > 0) {
-      let removeIdx: number;
-      if (Math.random() < 0.5) {
-        // 50% chance: random removal
-        removeIdx = randomInt(pack.cards.length);
-      } else {
-        // 50% chance: remove the rarest card
-        removeIdx = findRarestCardIndex(pack.cards);
+  // Remember what I left in the pack, so the next visit can show what wheeled
+  if (turnComplete) {
+    activePack.lastSeen = { turn: newState.currentTurn, cards: [...activePack.cards] };
+  }
+
+  // Remove cards from each other non-empty pack, using the draft's removal
+  // strategy to choose which (in a pod, the bot at each pack makes its picks)
+  const removed: LoggedRemoval[] = [];
+  if (turnComplete) {
+    const strategy = getRemovalStrategy(config.mode === 'pod' ? 'bots' : config.removalStrategy);
+    const removalsPerTurn = getRemovalsPerTurn(config);
+    // Seeded per turn, so identical picks always lead to identical removals
+    const rng = deriveRng(newState.seed, 'removal', newState.currentRound, newState.currentTurn);
+    for (let i = 0; i < currentRound.packs.length; i++) {
+      if (i === packIndex) continue;
+      const pack = currentRound.packs[i];
+      const bot = getBotForPack(newState, i);
+      for (let r = 0; r < removalsPerTurn && pack.cards.length > 0; r++) {
+        const choice = strategy.chooseCard(pack.cards, {
+          rng,
+          seed: newState.seed,
+          ratings: newState.ratings,
+          round: newState.currentRound,
+          packIndex: i,
+          bot,
+        });
+        const [removedCard] = pack.cards.splice(choice.index, 1);
+        if (strategy.usesBots && bot) {
+          bot.pool.push({ round: newState.currentRound, turn: newState.currentTurn, card: removedCard });
+        }
+        pack.removedLog.push({
+          round: newState.currentRound,
+          turn: newState.currentTurn,
+          card: removedCard,
+          strategy: strategy.id,
+          reason: choice.reason,
+        });
+        removed.push({ packIndex: i, card: removedCard, strategy: strategy.id, reason: choice.reason });
       }
-      pack.cards.splice(removeIdx, 1);
-      removedCount++;
     }
   }
   
@@ -146,48 +440,100 @@ export function pickCard(
     turn: newState.currentTurn,
     packIndex,
     picked: pickedCard,
-    removedCounts: removedCount,
+    removedCounts: removed.length,
+    removed,
   };
   newState.log.push(logEntry);
+
+  if (!turnComplete) {
+    return;
+  }
   
   // Advance turn
   newState.currentTurn++;
+  newState.picksThisTurn = 0;
   
   // Check if round is complete
-  if (newState.currentTurn > 12) {
+  if (newState.currentTurn > getTurnsPerRound(config)) {
     // Validate all packs are empty
     const allEmpty = currentRound.packs.every(p => p.cards.length === 0);
     if (!allEmpty) {
       console.warn('Round ended but not all packs are empty!');
     }
+    newState.roundSummaries.push(summarizeRound(newState, newState.currentRound));
     
     // Start next round or finish draft
-    if (newState.currentRound < 6) {
+    if (newState.currentRound < config.rounds) {
       newState.currentRound++;
       newState.currentTurn = 1;
-      const nextRound = createRound(newState.currentRound, newState.masterCards);
-      newState.rounds.push(nextRound);
+      newState.rounds.push(openRound(newState.currentRound, newState.dealtPacks));
     } else {
       newState.isComplete = true;
     }
   }
-  
-  return newState;
+}
+
+/**
+ * Whether the draft's pick history covers every pick, so it can be rewound.
+ * Drafts saved before the history existed can't be.
+ */
+export function canRewind(state: DraftState): boolean {
+  return state.pickHistory.length === state.picks.length;
+}
+
+/**
+ * Rewind the draft to just before a pick (0-based index into the log).
+ * The draft is rebuilt by replaying the earlier picks from the seed; the
+ * picks after it move onto the redo stack.
+ */
+export function rewindToPick(state: DraftState, pickIndex: number): DraftState | null {
+  if (!canRewind(state) || pickIndex < 0 || pickIndex >= state.pickHistory.length) {
+    return null;
+  }
+
+  return replayDraft({
+    ...state,
+    pickHistory: state.pickHistory.slice(0, pickIndex),
+    redoStack: [...state.redoStack, ...state.pickHistory.slice(pickIndex).reverse()],
+  });
+}
+
+/**
+ * Rebuild a draft from its record by replaying the pick history over the dealt packs
+ */
+export function replayDraft(record: DraftRecord): DraftState {
+  const replayed = startDraft(record);
+  record.pickHistory.forEach(cardIndex => applyPick(replayed, cardIndex));
+  replayed.pickHistory = [...record.pickHistory];
+  replayed.redoStack = [...record.redoStack];
+  return replayed;
 }
 
 /**
  * Undo the last pick
  */
 export function undoLastPick(state: DraftState): DraftState | null {
-  if (!state.undoBuffer) return null;
-  return deepClone(state.undoBuffer);
+  return rewindToPick(state, state.pickHistory.length - 1);
+}
+
+/**
+ * Redo the most recently undone pick
+ */
+export function redoPick(state: DraftState): DraftState | null {
+  if (state.redoStack.length === 0 || state.isComplete) return null;
+
+  const newState = cloneDraftState(state);
+  const cardIndex = newState.redoStack.pop()!;
+  applyPick(newState, cardIndex);
+  newState.pickHistory.push(cardIndex);
+  return newState;
 }
 
 /**
  * Reset the current round
  */
 export function resetRound(state: DraftState): DraftState {
-  const newState = deepClone(state);
+  const newState = cloneDraftState(state);
   
   // Remove all picks from the current round
   const currentRoundStartIdx = newState.log.findIndex(
@@ -198,21 +544,65 @@ export function resetRound(state: DraftState): DraftState {
     newState.picks.splice(currentRoundStartIdx);
     newState.log.splice(currentRoundStartIdx);
   }
+  newState.bots.forEach(bot => {
+    bot.pool = bot.pool.filter(pick => pick.round !== newState.currentRound);
+  });
   
-  // Recreate the current round
-  const newRound = createRound(newState.currentRound, newState.masterCards);
-  newState.rounds[newState.rounds.length - 1] = newRound;
+  // Reopen the current round's packs as they were dealt
+  newState.rounds[newState.rounds.length - 1] = openRound(newState.currentRound, newState.dealtPacks);
   newState.currentTurn = 1;
-  newState.undoBuffer = null;
+  newState.picksThisTurn = 0;
+  if (currentRoundStartIdx !== -1) {
+    newState.pickHistory.splice(currentRoundStartIdx);
+  }
+  newState.redoStack = [];
   
   return newState;
 }
 
+/**
+ * Replay a draft pick by pick from its seed and pick history.
+ * Returns null for drafts saved before the pick history was recorded.
+ */
+export function buildDraftReplay(state: DraftState): ReplayStep[] | null {
+  if (!canRewind(state) || state.pickHistory.length === 0) return null;
+
+  const replayed = startDraft(state);
+  return state.pickHistory.map((cardIndex, pickIndex) => {
+    const round = replayed.rounds[replayed.rounds.length - 1];
+    const packIndex = getActivePackIndex(replayed);
+    const step: ReplayStep = {
+      pickIndex,
+      round: replayed.currentRound,
+      turn: replayed.currentTurn,
+      packIndex,
+      pack: [...round.packs[packIndex].cards],
+      cardIndex,
+      picked: round.packs[packIndex].cards[cardIndex],
+      removed: [],
+    };
+
+    const removedBefore = round.packs.map(pack => pack.removedLog.length);
+    applyPick(replayed, cardIndex);
+    round.packs.forEach((pack, idx) => {
+      pack.removedLog.slice(removedBefore[idx]).forEach(record => {
+        step.removed.push({ packIndex: idx, record });
+      });
+    });
+
+    return step;
+  });
+}
+
 /**
  * Reset the entire draft
  */
-export function resetDraft(masterCards: Card[]): DraftState {
-  return createNewDraft(masterCards);
+export function resetDraft(
+  masterCards: Card[],
+  config: DraftConfig = DEFAULT_DRAFT_CONFIG,
+  ratings: CardRatings = {}
+): DraftState {
+  return createNewDraft(masterCards, config, generateSeed(), ratings);
 }
 
 /**
@@ -279,9 +669,9 @@ export function enrichDraftStateWithBaseCard(state: DraftState, masterCards: Car
     lookup.set(card.id, card);
   });
   
-  // Enrich masterCards
-  const enrichedMasterCards = state.masterCards.map(card => 
-    enrichCardWithBaseCard(card, lookup)
+  // Enrich the dealt packs
+  const enrichedDealtPacks = state.dealtPacks.map(round =>
+    round.map(pack => pack.map(card => enrichCardWithBaseCard(card, lookup)))
   );
   
   // Enrich picks
@@ -294,23 +684,26 @@ export function enrichDraftStateWithBaseCard(state: DraftState, masterCards: Car
     ...round,
     packs: round.packs.map(pack => ({
       ...pack,
-      cards: pack.cards.map(card => enrichCardWithBaseCard(card, lookup))
+      cards: pack.cards.map(card => enrichCardWithBaseCard(card, lookup)),
+      ...(pack.lastSeen && {
+        lastSeen: { ...pack.lastSeen, cards: pack.lastSeen.cards.map(card => enrichCardWithBaseCard(card, lookup)) },
+      }),
     }))
   }));
   
   // Enrich log entries
   const enrichedLog = state.log.map(entry => ({
     ...entry,
-    picked: enrichCardWithBaseCard(entry.picked, lookup)
+    picked: enrichCardWithBaseCard(entry.picked, lookup),
+    removed: (entry.removed ?? []).map(removal => ({ ...removal, card: enrichCardWithBaseCard(removal.card, lookup) }))
   }));
   
   return {
     ...state,
-    masterCards: enrichedMasterCards,
+    dealtPacks: enrichedDealtPacks,
     picks: enrichedPicks,
     rounds: enrichedRounds,
     log: enrichedLog,
-    undoBuffer: state.undoBuffer ? enrichDraftStateWithBaseCard(state.undoBuffer, masterCards) : null,
   };
 }
 
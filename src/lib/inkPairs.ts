@@ -0,0 +1,89 @@
+import { Card, CardRatings } from '../types';
+import { getCardGrade } from './cardValue';
+import { IDEAL_CURVE } from './advisor';
+import { INKS } from './inks';
+import { filterCards, getCurveBucket, getDeckStats, hasKeyword, isRemoval } from './deckUtils';
+import { SEALED_DECK_SIZE } from './deckBuilder';
+
+export interface InkPairReport {
+  inks: [string, string];
+  cards: number;            // every card in the pair's inks
+  playables: number;        // cards graded at least PLAYABLE_GRADE
+  curveCoverage: number;    // share of an ideal 40-card curve the playables can fill, 0–1
+  inkable: number;
+  removal: number;
+  evasive: number;
+  topCards: Card[];         // best graded first, one per name
+}
+
+/**
+ * Grade a card needs to count as playable: C tier or better. Below the
+ * estimate for an unrated common, so plain commons count unless rated lower.
+ */
+export const PLAYABLE_GRADE = 1.5;
+
+/**
+ * Cards listed per pair
+ */
+const TOP_CARD_COUNT = 3;
+
+/**
+ * How well the playables fill each slot of the ideal curve, with extras in
+ * one cost not making up for gaps in another
+ */
+function getCurveCoverage(playables: Card[]): number {
+  const counts: Record<number, number> = {};
+  playables.forEach(card => {
+    const bucket = getCurveBucket(card);
+    counts[bucket] = (counts[bucket] ?? 0) + 1;
+  });
+  return Object.keys(IDEAL_CURVE)
+    .map(Number)
+    .reduce((sum, bucket) => {
+      const wanted = IDEAL_CURVE[bucket] * SEALED_DECK_SIZE;
+      return sum + Math.min(counts[bucket] ?? 0, wanted);
+    }, 0) / SEALED_DECK_SIZE;
+}
+
+/**
+ * Compare all 15 ink pairs a pool could be built in, best supported first:
+ * most playables, then best curve coverage, then strongest top cards.
+ */
+export function getInkPairReports(pool: Card[], ratings: CardRatings = {}): InkPairReport[] {
+  const ranked: Array<{ report: InkPairReport; topGrade: number }> = [];
+
+  INKS.forEach((first, i) => {
+    INKS.slice(i + 1).forEach(second => {
+      const inks: [string, string] = [first, second];
+      const cards = filterCards(pool, { colors: inks });
+      const graded = cards
+        .map(card => ({ card, grade: getCardGrade(card, ratings) }))
+        .sort((a, b) => b.grade - a.grade);
+      const playables = graded.filter(({ grade }) => grade >= PLAYABLE_GRADE).map(({ card }) => card);
+      const topCards = graded
+        .filter(({ card }, idx) => graded.findIndex(entry => entry.card.fullName === card.fullName) === idx)
+        .slice(0, TOP_CARD_COUNT);
+
+      ranked.push({
+        report: {
+          inks,
+          cards: cards.length,
+          playables: playables.length,
+          curveCoverage: getCurveCoverage(playables),
+          inkable: getDeckStats(cards).inkable,
+          removal: cards.filter(isRemoval).length,
+          evasive: cards.filter(card => hasKeyword(card, 'Evasive')).length,
+          topCards: topCards.map(({ card }) => card),
+        },
+        topGrade: topCards.reduce((sum, { grade }) => sum + grade, 0),
+      });
+    });
+  });
+
+  return ranked
+    .sort((a, b) =>
+      b.report.playables - a.report.playables
+      || b.report.curveCoverage - a.report.curveCoverage
+      || b.topGrade - a.topGrade)
+    .map(({ report }) => report);
+}
@@ -0,0 +1,44 @@
+import { Card, CardRatings } from '../types';
+import { getCardGrade } from './cardValue';
+
+/**
+ * The six Lorcana inks, in the order the game lists them
+ */
+export const INKS = ['Amber', 'Amethyst', 'Emerald', 'Ruby', 'Sapphire', 'Steel'];
+
+/**
+ * Picks after which a pool is treated as fully committed to its two inks
+ */
+const COMMITMENT_PICKS = 20;
+
+/**
+ * Total card grade in each ink across a pool of cards
+ */
+export function getInkWeights(cards: Card[], ratings: CardRatings = {}): Record<string, number> {
+  const weights: Record<string, number> = {};
+  INKS.forEach(ink => {
+    weights[ink] = 0;
+  });
+  cards.forEach(card => {
+    weights[card.color] = (weights[card.color] ?? 0) + getCardGrade(card, ratings);
+  });
+  return weights;
+}
+
+/**
+ * The two inks a pool leans into most (fewer when it has fewer inks)
+ */
+export function getTopInks(weights: Record<string, number>): string[] {
+  return Object.keys(weights)
+    .filter(ink => weights[ink] > 0)
+    .sort((a, b) => weights[b] - weights[a])
+    .slice(0, 2);
+}
+
+/**
+ * 0..1 — how committed a pool of this many picks is to its top inks.
+ * Bots and the pick advisor ramp up colour preference along the same curve.
+ */
+export function getInkCommitment(poolSize: number): number {
+  return Math.min(1, poolSize / COMMITMENT_PICKS);
+}
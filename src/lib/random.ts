@@ -1,20 +1,68 @@
+/**
+ * A source of uniform random numbers in [0, 1), like Math.random
+ */
+export type Rng = () => number;
+
+/**
+ * Hash a string into a 32-bit unsigned integer (xmur3 finaliser)
+ */
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+/**
+ * Create a seeded PRNG (mulberry32). The same seed always yields the same sequence.
+ */
+export function createRng(seed: string): Rng {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create an independent PRNG stream for one part of a seeded draft,
+ * e.g. deriveRng(seed, 'round', 2). Streams don't affect each other,
+ * so the packs of round 2 stay the same whatever was picked in round 1.
+ */
+export function deriveRng(seed: string, ...parts: Array<string | number>): Rng {
+  return createRng([seed, ...parts].join(':'));
+}
+
+/**
+ * Generate a short, shareable seed
+ */
+export function generateSeed(): string {
+  return Math.random().toString(36).slice(2, 10).padEnd(8, '0');
+}
+
 /**
  * Returns a random integer in [0, n)
  */
-export function randomInt(n: number): number {
-  return Math.floor(Math.random() * n);
+export function randomInt(n: number, rng: Rng = Math.random): number {
+  return Math.floor(rng() * n);
 }
 
 /**
  * Sample k items from arr without replacement
  */
-export function sampleWithoutReplacement<T>(arr: T[], k: number): T[] {
+export function sampleWithoutReplacement<T>(arr: T[], k: number, rng: Rng = Math.random): T[] {
   const copy = [...arr];
   const result: T[] = [];
   const max = Math.min(k, arr.length);
   
   for (let i = 0; i < max; i++) {
-    const idx = randomInt(copy.length);
+    const idx = randomInt(copy.length, rng);
     result.push(copy[idx]);
     copy.splice(idx, 1);
   }
@@ -25,10 +73,10 @@ export function sampleWithoutReplacement<T>(arr: T[], k: number): T[] {
 /**
  * Shuffle an array in place (Fisher-Yates)
  */
-export function shuffle<T>(arr: T[]): T[] {
+export function shuffle<T>(arr: T[], rng: Rng = Math.random): T[] {
   const copy = [...arr];
   for (let i = copy.length - 1; i > 0; i--) {
-    const j = randomInt(i + 1);
+    const j = randomInt(i + 1, rng);
     [copy[i], copy[j]] = [copy[j], copy[i]];
   }
   return copy;
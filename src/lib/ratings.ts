@@ -0,0 +1,157 @@
+import { Card, CardRating, CardRatings } from '../types';
+import { escapeCsvField, getCardKey, getCardSetCode, parseCsv } from './cardUtils';
+
+export interface RatingTier {
+  label: string;
+  min: number;          // lowest grade in the tier
+}
+
+/**
+ * Tier-list rows, best first
+ */
+export const RATING_TIERS: RatingTier[] = [
+  { label: 'S', min: 4.5 },
+  { label: 'A', min: 3.5 },
+  { label: 'B', min: 2.5 },
+  { label: 'C', min: 1.5 },
+  { label: 'D', min: 0.5 },
+  { label: 'F', min: 0 },
+];
+
+export interface RatingsImportResult {
+  ratings: CardRating[];
+  problems: string[];   // rows that were skipped, and why
+}
+
+/**
+ * The set most of the cards belong to
+ */
+export function getSetCode(cards: Card[]): string {
+  const counts = new Map<string, number>();
+  cards.forEach(card => {
+    const code = getCardSetCode(card);
+    counts.set(code, (counts.get(code) ?? 0) + 1);
+  });
+  let best = 'unknown';
+  let bestCount = 0;
+  counts.forEach((count, code) => {
+    if (count > bestCount) {
+      best = code;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Grade lookup by card key, as stored on a draft
+ */
+export function toRatingsLookup(ratings: CardRating[]): CardRatings {
+  const lookup: CardRatings = {};
+  ratings.forEach(rating => {
+    lookup[getCardKey(rating.cardId)] = rating.grade;
+  });
+  return lookup;
+}
+
+/**
+ * The tier-list row a grade falls in
+ */
+export function getRatingTier(grade: number): RatingTier {
+  return RATING_TIERS.find(tier => grade >= tier.min) ?? RATING_TIERS[RATING_TIERS.length - 1];
+}
+
+/**
+ * Whether a grade is a number from 0 to 5
+ */
+export function isValidGrade(grade: number): boolean {
+  return typeof grade === 'number' && !isNaN(grade) && grade >= 0 && grade <= 5;
+}
+
+/**
+ * Ratings sorted best first, with the card names attached for sharing
+ */
+function describeRatings(ratings: CardRating[], cards: Card[]) {
+  const names = new Map(cards.map(card => [getCardKey(card.id), card.fullName] as [string, string]));
+  return [...ratings]
+    .sort((a, b) => b.grade - a.grade)
+    .map(rating => ({
+      id: rating.cardId,
+      name: names.get(getCardKey(rating.cardId)) ?? '',
+      grade: rating.grade,
+      notes: rating.notes,
+    }));
+}
+
+/**
+ * Ratings as a JSON document: { set, ratings: [{ id, name, grade, notes }] }
+ */
+export function exportRatingsJson(setCode: string, ratings: CardRating[], cards: Card[]): string {
+  return JSON.stringify({ set: setCode, ratings: describeRatings(ratings, cards) }, null, 2);
+}
+
+/**
+ * Ratings as CSV with an id,name,grade,notes header
+ */
+export function exportRatingsCsv(ratings: CardRating[], cards: Card[]): string {
+  const rows = describeRatings(ratings, cards).map(row =>
+    [String(row.id), row.name, String(row.grade), row.notes].map(escapeCsvField).join(',')
+  );
+  return ['id,name,grade,notes', ...rows].join('\n');
+}
+
+/**
+ * Parse shared ratings, as JSON (our export, or a bare array) or CSV with
+ * id/name/grade/notes columns. Cards are matched by id first, then by name.
+ */
+export function parseRatingsImport(text: string, cards: Card[]): RatingsImportResult {
+  const byKey = new Map(cards.map(card => [getCardKey(card.id), card] as [string, Card]));
+  const byName = new Map(cards.map(card => [card.fullName.toLowerCase(), card] as [string, Card]));
+
+  let entries: Array<{ id?: unknown; name?: unknown; grade?: unknown; notes?: unknown }>;
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    entries = Array.isArray(data) ? data : data.ratings;
+    if (!Array.isArray(entries)) {
+      throw new Error('JSON ratings need a "ratings" array');
+    }
+  } else {
+    const [header, ...rows] = parseCsv(trimmed);
+    if (!header) {
+      throw new Error('No ratings found');
+    }
+    const columns = header.map(column => column.trim().toLowerCase());
+    if (!columns.includes('grade') || (!columns.includes('id') && !columns.includes('name'))) {
+      throw new Error('CSV ratings need a grade column and an id or name column');
+    }
+    entries = rows.map(fields => {
+      const entry: Record<string, string> = {};
+      columns.forEach((column, idx) => {
+        entry[column] = fields[idx] ?? '';
+      });
+      return entry;
+    });
+  }
+
+  const ratings: CardRating[] = [];
+  const problems: string[] = [];
+  entries.forEach((entry, idx) => {
+    const label = String(entry.name || entry.id || `Row ${idx + 1}`);
+    const card =
+      (entry.id !== undefined && entry.id !== '' ? byKey.get(String(entry.id)) : undefined) ??
+      (typeof entry.name === 'string' ? byName.get(entry.name.trim().toLowerCase()) : undefined);
+    if (!card) {
+      problems.push(`${label}: no matching card`);
+      return;
+    }
+    const grade = typeof entry.grade === 'number' ? entry.grade : parseFloat(String(entry.grade));
+    if (!isValidGrade(grade)) {
+      problems.push(`${label}: grade must be between 0 and 5`);
+      return;
+    }
+    ratings.push({ cardId: card.id, grade, notes: entry.notes ? String(entry.notes) : '' });
+  });
+
+  return { ratings, problems };
+}
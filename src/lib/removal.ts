@@ -0,0 +1,166 @@
+import { BotState, Card, CardRatings, RemovalStrategyId } from '../types';
+import { Rng, deriveRng, randomInt, sampleWithoutReplacement } from './random';
+import { getCardGrade, getRarityValue } from './cardValue';
+import { INKS } from './inks';
+import { chooseBotPick, describeBotInks } from './bots';
+
+export interface RemovalContext {
+  rng: Rng;            // seeded per turn by the draft engine
+  seed: string;        // the draft's seed
+  round: number;
+  packIndex: number;   // pack the card is being removed from
+  bot?: BotState;      // bot sitting at that pack, when the draft has bots
+  ratings: CardRatings; // the draft's card grades
+}
+
+export interface RemovalChoice {
+  index: number;       // index into the pack's cards
+  reason: string;      // short explanation recorded in the pack's removedLog
+}
+
+export interface RemovalStrategy {
+  id: RemovalStrategyId;
+  name: string;
+  description: string;
+  usesBots?: boolean;  // removed cards go into the bot's pool
+  chooseCard(cards: Card[], context: RemovalContext): RemovalChoice;
+}
+
+/**
+ * Find the index of a rarest card in the pack
+ * If multiple cards have the same highest rarity, returns a random one among them
+ */
+export function findRarestCardIndex(cards: Card[], rng: Rng): number {
+  if (cards.length === 0) return -1;
+
+  // Find the highest rarity value
+  let maxRarity = -1;
+  const rarestIndices: number[] = [];
+
+  cards.forEach((card, index) => {
+    const rarityValue = getRarityValue(card.rarity);
+    if (rarityValue > maxRarity) {
+      maxRarity = rarityValue;
+      rarestIndices.length = 0; // Clear previous indices
+      rarestIndices.push(index);
+    } else if (rarityValue === maxRarity) {
+      rarestIndices.push(index);
+    }
+  });
+
+  // If multiple cards have the same highest rarity, pick one randomly
+  if (rarestIndices.length === 1) {
+    return rarestIndices[0];
+  } else {
+    return rarestIndices[randomInt(rarestIndices.length, rng)];
+  }
+}
+
+/**
+ * Index of the highest-graded card, optionally only among cards passing a filter.
+ * Returns -1 when no card qualifies.
+ */
+export function findBestCardIndex(
+  cards: Card[],
+  ratings: CardRatings,
+  filter: (card: Card) => boolean = () => true
+): number {
+  let bestIndex = -1;
+  let bestValue = -Infinity;
+  cards.forEach((card, index) => {
+    if (!filter(card)) return;
+    const value = getCardGrade(card, ratings);
+    if (value > bestValue) {
+      bestValue = value;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+/**
+ * The two inks the colour-biased remover favours for a pack.
+ * Derived from the seed so every removal from that pack leans the same way.
+ */
+export function getBiasInks(seed: string, packIndex: number): string[] {
+  return sampleWithoutReplacement(INKS, 2, deriveRng(seed, 'bias', packIndex));
+}
+
+const randomStrategy: RemovalStrategy = {
+  id: 'random',
+  name: 'Pure random',
+  description: 'Every card in the pack is equally likely to go.',
+  chooseCard: (cards, { rng }) => ({ index: randomInt(cards.length, rng), reason: 'random' }),
+};
+
+const rarestStrategy: RemovalStrategy = {
+  id: 'rarest',
+  name: 'Rarest first',
+  description: 'Always takes the rarest card, breaking ties at random.',
+  chooseCard: (cards, { rng }) => ({ index: findRarestCardIndex(cards, rng), reason: 'rarest' }),
+};
+
+const highestRatedStrategy: RemovalStrategy = {
+  id: 'highest-rated',
+  name: 'Highest rated',
+  description: 'Takes the strongest card, like a drafter who always picks on power.',
+  chooseCard: (cards, { ratings }) => ({ index: findBestCardIndex(cards, ratings), reason: 'highest rated' }),
+};
+
+const colorBiasedStrategy: RemovalStrategy = {
+  id: 'color-biased',
+  name: 'Colour-biased bot',
+  description: 'Each pack is drafted by a bot committed to two inks; it takes its best on-colour card.',
+  chooseCard: (cards, { seed, packIndex, ratings }) => {
+    const inks = getBiasInks(seed, packIndex);
+    const onColorIndex = findBestCardIndex(cards, ratings, card => inks.includes(card.color));
+    if (onColorIndex !== -1) {
+      return { index: onColorIndex, reason: `colour bias (${inks.join('/')})` };
+    }
+    return { index: findBestCardIndex(cards, ratings), reason: 'highest rated (nothing on-colour)' };
+  },
+};
+
+const botsStrategy: RemovalStrategy = {
+  id: 'bots',
+  name: 'Bot drafters',
+  description: 'A bot sits at every other pack, keeps its own pool and settles into two inks as the draft goes on.',
+  usesBots: true,
+  chooseCard: (cards, context) => {
+    if (!context.bot) {
+      return highestRatedStrategy.chooseCard(cards, context);
+    }
+    return {
+      index: chooseBotPick(cards, context.bot, context.rng, context.ratings),
+      reason: `${context.bot.name} (${describeBotInks(context.bot, context.ratings)})`,
+    };
+  },
+};
+
+const mixedStrategy: RemovalStrategy = {
+  id: 'mixed',
+  name: 'Mixed (house rule)',
+  description: 'Half the time a random card, half the time the rarest card.',
+  chooseCard: (cards, context) => {
+    if (context.rng() < 0.5) {
+      return randomStrategy.chooseCard(cards, context);
+    }
+    return rarestStrategy.chooseCard(cards, context);
+  },
+};
+
+export const REMOVAL_STRATEGIES: RemovalStrategy[] = [
+  mixedStrategy,
+  randomStrategy,
+  rarestStrategy,
+  highestRatedStrategy,
+  colorBiasedStrategy,
+  botsStrategy,
+];
+
+/**
+ * Look up a removal strategy by id, falling back to the house rule
+ */
+export function getRemovalStrategy(id: RemovalStrategyId | undefined): RemovalStrategy {
+  return REMOVAL_STRATEGIES.find(strategy => strategy.id === id) ?? mixedStrategy;
+}
@@ -0,0 +1,34 @@
+import { DraftState, RoundSummary } from '../types';
+import { getCardGrade } from './cardValue';
+import { getCurveBucket } from './deckUtils';
+
+/**
+ * Removed cards listed in a round summary
+ */
+const BEST_LOST_COUNT = 5;
+
+/**
+ * Summarize a finished round: my picks from it, the ink and cost spread of my
+ * whole pool so far and the best cards the removal step took.
+ */
+export function summarizeRound(state: DraftState, roundNumber: number): RoundSummary {
+  const picks = state.log.filter(entry => entry.round === roundNumber).map(entry => entry.picked);
+  const pool = state.log.filter(entry => entry.round <= roundNumber).map(entry => entry.picked);
+
+  const inkCounts: Record<string, number> = {};
+  const costCounts: Record<number, number> = {};
+  pool.forEach(card => {
+    inkCounts[card.color] = (inkCounts[card.color] ?? 0) + 1;
+    const bucket = getCurveBucket(card);
+    costCounts[bucket] = (costCounts[bucket] ?? 0) + 1;
+  });
+
+  const round = state.rounds.find(r => r.roundNumber === roundNumber);
+  const bestLost = (round ? round.packs.flatMap(pack => pack.removedLog) : [])
+    .map(record => ({ record, grade: getCardGrade(record.card, state.ratings) }))
+    .sort((a, b) => b.grade - a.grade)
+    .slice(0, BEST_LOST_COUNT)
+    .map(({ record }) => record);
+
+  return { round: roundNumber, picks, inkCounts, costCounts, bestLost };
+}
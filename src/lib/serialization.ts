@@ -0,0 +1,305 @@
+import {
+  BotPick,
+  Card,
+  CardRatings,
+  DraftConfig,
+  DraftState,
+  LoggedRemoval,
+  PickLogEntry,
+  RemovalRecord,
+  RoundState,
+  RoundSummary,
+} from '../types';
+import { getCardKey } from './cardUtils';
+import { LegacyDraftState, canRewind, replayDraft } from './draft';
+
+/**
+ * A card as stored in a saved draft or deck: its id, or an id plus the foil
+ * flag for cards opened in a foil slot. The card itself lives in the cards table.
+ */
+export type CardRef = Card['id'] | { id: Card['id']; foil: true };
+
+export interface DeckCardCount {
+  id: Card['id'];
+  count: number;
+  foil?: true;
+}
+
+type StoredRemovalRecord = Omit<RemovalRecord, 'card'> & { card: CardRef };
+type StoredBotPick = Omit<BotPick, 'card'> & { card: CardRef };
+type StoredRoundSummary = Omit<RoundSummary, 'picks' | 'bestLost'> & {
+  picks: CardRef[];
+  bestLost: StoredRemovalRecord[];
+};
+type StoredLoggedRemoval = Omit<LoggedRemoval, 'card'> & { card: CardRef };
+type StoredPickLogEntry = Omit<PickLogEntry, 'picked' | 'removed'> & { picked: CardRef; removed?: StoredLoggedRemoval[] };
+
+interface StoredRound {
+  roundNumber: number;
+  packs: Array<{
+    id: string;
+    cards: CardRef[];
+    removedLog: StoredRemovalRecord[];
+    lastSeen?: { turn: number; cards: CardRef[] };
+  }>;
+  turn: number;
+}
+
+/**
+ * Where a draft that can't be replayed stands: its rounds, picks and logs
+ */
+interface StoredDraftSnapshot {
+  rounds: StoredRound[];
+  currentRound: number;
+  currentTurn: number;
+  picksThisTurn: number;
+  picks: CardRef[];
+  bots: Array<{ id: number; name: string; pool: StoredBotPick[] }>;
+  log: StoredPickLogEntry[];
+  roundSummaries?: StoredRoundSummary[];
+  isComplete: boolean;
+}
+
+/**
+ * Compact form of a DraftState: config, seed, the packs as dealt and the
+ * picks made, with every card replaced by a reference into the cards table.
+ * Loading replays the picks to rebuild the rounds, logs, bot pools and round
+ * summaries. Drafts whose pick history doesn't cover every pick (imported
+ * pools, drafts from before the history) keep a snapshot instead.
+ */
+export interface StoredDraft {
+  version: 3;
+  config: DraftConfig;
+  seed: string;
+  packs: CardRef[][][];           // every round's packs as dealt
+  ratings: CardRatings;           // grades of the dealt cards, so replayed removals match
+  pickHistory: number[];
+  redoStack: number[];
+  snapshot?: StoredDraftSnapshot;
+}
+
+/**
+ * The previous stored form, which kept the whole card pool and the full logs
+ */
+export interface LegacyStoredDraft extends StoredDraftSnapshot {
+  version: 2;
+  config: DraftConfig;
+  seed: string;
+  masterCards: Card['id'][];
+  ratings?: CardRatings;
+  pickHistory: number[];
+  redoStack: number[];
+}
+
+/**
+ * Whether draft JSON is in the stored (card reference) form
+ */
+export function isStoredDraft(value: unknown): value is StoredDraft {
+  return !!value && (value as StoredDraft).version === 3;
+}
+
+/**
+ * Whether draft JSON is in the previous stored form
+ */
+export function isLegacyStoredDraft(value: unknown): value is LegacyStoredDraft {
+  return !!value && (value as LegacyStoredDraft).version === 2;
+}
+
+function toCardRef(card: Card): CardRef {
+  return card.foil ? { id: card.id, foil: true } : card.id;
+}
+
+/**
+ * Every distinct card a draft refers to, for writing to the cards table
+ */
+export function collectDraftCards(state: DraftState): Card[] {
+  const cards = new Map<string, Card>();
+  const add = (card: Card) => {
+    const key = getCardKey(card.id);
+    if (!cards.has(key)) {
+      // The foil flag belongs to the copy in the draft, not the card
+      const { foil, ...base } = card;
+      cards.set(key, foil ? base : card);
+    }
+  };
+
+  // Everything else in a draft was dealt, except imported picks
+  state.dealtPacks.forEach(round => round.forEach(pack => pack.forEach(add)));
+  state.picks.forEach(add);
+
+  return Array.from(cards.values());
+}
+
+/**
+ * Replace every card in a draft's snapshot with a card reference
+ */
+function dehydrateSnapshot(state: DraftState): StoredDraftSnapshot {
+  return {
+    rounds: state.rounds.map(round => ({
+      roundNumber: round.roundNumber,
+      packs: round.packs.map(pack => ({
+        id: pack.id,
+        cards: pack.cards.map(toCardRef),
+        removedLog: pack.removedLog.map(record => ({ ...record, card: toCardRef(record.card) })),
+        ...(pack.lastSeen && { lastSeen: { turn: pack.lastSeen.turn, cards: pack.lastSeen.cards.map(toCardRef) } }),
+      })),
+      turn: round.turn,
+    })),
+    currentRound: state.currentRound,
+    currentTurn: state.currentTurn,
+    picksThisTurn: state.picksThisTurn,
+    picks: state.picks.map(toCardRef),
+    bots: state.bots.map(bot => ({
+      ...bot,
+      pool: bot.pool.map(pick => ({ ...pick, card: toCardRef(pick.card) })),
+    })),
+    log: state.log.map(entry => ({
+      ...entry,
+      picked: toCardRef(entry.picked),
+      removed: entry.removed.map(removal => ({ ...removal, card: toCardRef(removal.card) })),
+    })),
+    roundSummaries: state.roundSummaries.map(summary => ({
+      ...summary,
+      picks: summary.picks.map(toCardRef),
+      bestLost: summary.bestLost.map(record => ({ ...record, card: toCardRef(record.card) })),
+    })),
+    isComplete: state.isComplete,
+  };
+}
+
+/**
+ * Store a draft as its config, seed, dealt packs and pick history. Pass
+ * keepSnapshot for a draft that its pick history doesn't rebuild.
+ */
+export function dehydrateDraftState(state: DraftState, keepSnapshot = !canRewind(state)): StoredDraft {
+  return {
+    version: 3,
+    config: state.config,
+    seed: state.seed,
+    // A finished draft that can't be replayed never opens another pack
+    packs: keepSnapshot && state.isComplete ? [] : state.dealtPacks.map(round => round.map(pack => pack.map(toCardRef))),
+    ratings: state.ratings,
+    pickHistory: state.pickHistory,
+    redoStack: state.redoStack,
+    ...(keepSnapshot && { snapshot: dehydrateSnapshot(state) }),
+  };
+}
+
+/**
+ * Resolve card references against the cards table. A card that has gone
+ * missing becomes a placeholder so counts and logs stay intact.
+ */
+function createCardResolver(cardsByKey: Map<string, Card>): (ref: CardRef) => Card {
+  return (ref: CardRef) => {
+    const id = typeof ref === 'object' ? ref.id : ref;
+    const card = cardsByKey.get(getCardKey(id)) ?? { id, fullName: `Unknown card ${id}`, color: '' };
+    return typeof ref === 'object' && ref.foil ? { ...card, foil: true } : card;
+  };
+}
+
+/**
+ * Rebuild the parts of a DraftState a snapshot holds
+ */
+function hydrateSnapshot(
+  snapshot: StoredDraftSnapshot,
+  resolve: (ref: CardRef) => Card
+): Omit<DraftState, 'dealtPacks' | 'config' | 'seed' | 'ratings' | 'pickHistory' | 'redoStack'> {
+  const rounds: RoundState[] = snapshot.rounds.map(round => ({
+    roundNumber: round.roundNumber,
+    packs: round.packs.map(pack => ({
+      id: pack.id,
+      cards: pack.cards.map(resolve),
+      removedLog: pack.removedLog.map(record => ({ ...record, card: resolve(record.card) })),
+      ...(pack.lastSeen && { lastSeen: { turn: pack.lastSeen.turn, cards: pack.lastSeen.cards.map(resolve) } }),
+    })),
+    turn: round.turn,
+  }));
+
+  return {
+    rounds,
+    currentRound: snapshot.currentRound,
+    currentTurn: snapshot.currentTurn,
+    picksThisTurn: snapshot.picksThisTurn,
+    picks: snapshot.picks.map(resolve),
+    bots: snapshot.bots.map(bot => ({
+      ...bot,
+      pool: bot.pool.map(pick => ({ ...pick, card: resolve(pick.card) })),
+    })),
+    log: snapshot.log.map(entry => ({
+      ...entry,
+      picked: resolve(entry.picked),
+      removed: (entry.removed ?? []).map(removal => ({ ...removal, card: resolve(removal.card) })),
+    })),
+    roundSummaries: (snapshot.roundSummaries ?? []).map(summary => ({
+      ...summary,
+      picks: summary.picks.map(resolve),
+      bestLost: summary.bestLost.map(record => ({ ...record, card: resolve(record.card) })),
+    })),
+    isComplete: snapshot.isComplete,
+  };
+}
+
+/**
+ * Rebuild a DraftState from its stored form, replaying its picks unless it kept a snapshot
+ */
+export function hydrateDraftState(stored: StoredDraft, cardsByKey: Map<string, Card>): DraftState {
+  const resolve = createCardResolver(cardsByKey);
+  const record = {
+    config: stored.config,
+    seed: stored.seed,
+    dealtPacks: stored.packs.map(round => round.map(pack => pack.map(resolve))),
+    ratings: stored.ratings,
+    pickHistory: stored.pickHistory,
+    redoStack: stored.redoStack,
+  };
+  return stored.snapshot ? { ...record, ...hydrateSnapshot(stored.snapshot, resolve) } : replayDraft(record);
+}
+
+/**
+ * Rebuild a draft saved in the previous stored form; normalizeDraftState
+ * deals its packs from the card pool
+ */
+export function hydrateLegacyDraftState(stored: LegacyStoredDraft, cardsByKey: Map<string, Card>): LegacyDraftState {
+  const resolve = createCardResolver(cardsByKey);
+  return {
+    ...hydrateSnapshot(stored, resolve),
+    masterCards: stored.masterCards.map(resolve),
+    config: stored.config,
+    seed: stored.seed,
+    ratings: stored.ratings ?? {},
+    pickHistory: stored.pickHistory,
+    redoStack: stored.redoStack,
+  };
+}
+
+/**
+ * Collapse a deck's cards into id counts, in order of first appearance
+ */
+export function toDeckCardCounts(cards: Card[]): DeckCardCount[] {
+  const counts = new Map<string, DeckCardCount>();
+  cards.forEach(card => {
+    const key = `${getCardKey(card.id)}|${card.foil ? 'foil' : ''}`;
+    const existing = counts.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      counts.set(key, card.foil ? { id: card.id, count: 1, foil: true } : { id: card.id, count: 1 });
+    }
+  });
+  return Array.from(counts.values());
+}
+
+/**
+ * Expand id counts back into a deck's cards
+ */
+export function fromDeckCardCounts(counts: DeckCardCount[], cardsByKey: Map<string, Card>): Card[] {
+  const resolve = createCardResolver(cardsByKey);
+  const cards: Card[] = [];
+  counts.forEach(({ id, count, foil }) => {
+    const card = resolve(foil ? { id, foil } : id);
+    for (let i = 0; i < count; i++) {
+      cards.push(card);
+    }
+  });
+  return cards;
+}
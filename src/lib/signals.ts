@@ -0,0 +1,138 @@
+import { DraftState, RoundState, PickLogEntry } from '../types';
+import { INKS } from './inks';
+
+export type SignalTrend = 'opening' | 'closing' | 'steady';
+
+export interface InkSignal {
+  ink: string;
+  remainingShare: number;  // share of the cards still in this round's packs
+  removedShare: number;    // share of the cards removed this round
+  roundScore: number;      // openness this round (see readInkSignals)
+  overallScore: number;    // openness across the whole draft
+  recentScore: number;     // openness over the last few turns
+  trend: SignalTrend;      // recent turns compared with the whole draft
+  byRound: number[];       // openness per round, round 1 first
+}
+
+/**
+ * Turns counted as "recent" for the trend
+ */
+const RECENT_TURNS = 4;
+
+/**
+ * Gap in score between recent turns and the whole draft before it counts as a trend
+ */
+const TREND_THRESHOLD = 8;
+
+interface TurnTally {
+  removals: number;
+  expected: Record<string, number>;  // removals of each ink if the removers ignored ink
+  actual: Record<string, number>;    // removals of each ink that happened
+}
+
+const emptyInkCounts = (): Record<string, number> =>
+  INKS.reduce((counts, ink) => ({ ...counts, [ink]: 0 }), {} as Record<string, number>);
+
+/**
+ * Replay one round's picks and removals against each pack's ink mix, turn by turn.
+ * Every removal adds the ink shares of the pack it came from at that moment to the
+ * expected counts, so a removal step that takes inks at random scores zero.
+ */
+function tallyRound(round: RoundState, log: PickLogEntry[]): TurnTally[] {
+  const myPicks = log.filter(entry => entry.round === round.roundNumber);
+
+  // What each pack opened with: what's left, what was removed and what I took
+  const inkCounts = round.packs.map((pack, packIndex) => {
+    const counts = emptyInkCounts();
+    const add = (color: string) => {
+      if (color in counts) counts[color]++;
+    };
+    pack.cards.forEach(card => add(card.color));
+    pack.removedLog.forEach(record => add(record.card.color));
+    myPicks.filter(entry => entry.packIndex === packIndex).forEach(entry => add(entry.picked.color));
+    return counts;
+  });
+  const take = (packIndex: number, color: string) => {
+    if (inkCounts[packIndex][color] > 0) inkCounts[packIndex][color]--;
+  };
+
+  const lastTurn = Math.max(
+    0,
+    ...myPicks.map(entry => entry.turn),
+    ...round.packs.flatMap(pack => pack.removedLog.map(record => record.turn))
+  );
+
+  const tallies: TurnTally[] = [];
+  for (let turn = 1; turn <= lastTurn; turn++) {
+    myPicks.filter(entry => entry.turn === turn).forEach(entry => take(entry.packIndex, entry.picked.color));
+
+    const tally: TurnTally = {
+      removals: 0,
+      expected: emptyInkCounts(),
+      actual: emptyInkCounts(),
+    };
+    round.packs.forEach((pack, packIndex) => {
+      pack.removedLog.filter(record => record.turn === turn).forEach(record => {
+        const counts = inkCounts[packIndex];
+        const total = INKS.reduce((sum, ink) => sum + counts[ink], 0);
+        if (total > 0) {
+          INKS.forEach(ink => {
+            tally.expected[ink] += counts[ink] / total;
+          });
+        }
+        if (record.card.color in tally.actual) tally.actual[record.card.color]++;
+        tally.removals++;
+        take(packIndex, record.card.color);
+      });
+    });
+    tallies.push(tally);
+  }
+  return tallies;
+}
+
+/**
+ * Openness of an ink over some turns: how many fewer of its cards were removed
+ * than expected, per 100 removals. Positive means the ink is flowing.
+ */
+function scoreTallies(tallies: TurnTally[], ink: string): number {
+  const removals = tallies.reduce((sum, tally) => sum + tally.removals, 0);
+  if (removals === 0) return 0;
+  const gap = tallies.reduce((sum, tally) => sum + tally.expected[ink] - tally.actual[ink], 0);
+  return (gap / removals) * 100;
+}
+
+/**
+ * Read which inks are open from what the removal step (or the bots) took,
+ * against what was in the packs at the time. Sorted most open first.
+ */
+export function readInkSignals(state: DraftState): InkSignal[] {
+  const talliesByRound = state.rounds.map(round => tallyRound(round, state.log));
+  const allTallies = talliesByRound.flat();
+  const currentRound = state.rounds[state.rounds.length - 1];
+  const currentTallies = talliesByRound[talliesByRound.length - 1] ?? [];
+  const recentTallies = allTallies.filter(tally => tally.removals > 0).slice(-RECENT_TURNS);
+
+  const remaining = currentRound.packs.flatMap(pack => pack.cards);
+  const removed = currentRound.packs.flatMap(pack => pack.removedLog.map(record => record.card));
+  const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+  return INKS.map(ink => {
+    const overallScore = scoreTallies(allTallies, ink);
+    const recentScore = scoreTallies(recentTallies, ink);
+    const trend: SignalTrend =
+      recentTallies.length < RECENT_TURNS ? 'steady'
+        : recentScore - overallScore > TREND_THRESHOLD ? 'opening'
+          : overallScore - recentScore > TREND_THRESHOLD ? 'closing'
+            : 'steady';
+    return {
+      ink,
+      remainingShare: share(remaining.filter(card => card.color === ink).length, remaining.length),
+      removedShare: share(removed.filter(card => card.color === ink).length, removed.length),
+      roundScore: scoreTallies(currentTallies, ink),
+      overallScore,
+      recentScore,
+      trend,
+      byRound: talliesByRound.map(tallies => scoreTallies(tallies, ink)),
+    };
+  }).sort((a, b) => b.overallScore - a.overallScore);
+}
@@ -4,6 +4,7 @@ import {
   getLatestDraftState,
   saveCurrentDraftState,
 } from './database';
+import { normalizeDraftState } from './draft';
 
 export async function saveState(state: DraftState): Promise<void> {
   try {
@@ -15,7 +16,8 @@ export async function saveState(state: DraftState): Promise<void> {
 
 export async function loadState(): Promise<DraftState | null> {
   try {
-    return await getLatestDraftState();
+    const state = await getLatestDraftState();
+    return state ? normalizeDraftState(state) : null;
   } catch (error) {
     console.error('Failed to load state:', error);
     return null;
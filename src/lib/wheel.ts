@@ -0,0 +1,39 @@
+import { Card, Pack, RemovalRecord } from '../types';
+import { getCardKey } from './cardUtils';
+
+export interface WheelInfo {
+  seenOnTurn: number;        // turn I last picked from this pack
+  wheeled: boolean[];        // per card in the pack: was it there when I passed it?
+  gone: RemovalRecord[];     // cards removed from the pack since then, oldest first
+}
+
+const getCopyKey = (card: Card) => `${getCardKey(card.id)}|${card.foil ? 'foil' : ''}`;
+
+/**
+ * Compare a pack with what I left in it last time I saw it this round.
+ * Returns null on the first visit.
+ */
+export function getWheelInfo(pack: Pack): WheelInfo | null {
+  const { lastSeen } = pack;
+  if (!lastSeen) return null;
+
+  // Match copies one for one, so a duplicate that arrived later isn't counted as wheeled
+  const remaining = new Map<string, number>();
+  lastSeen.cards.forEach(card => {
+    const key = getCopyKey(card);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  });
+  const wheeled = pack.cards.map(card => {
+    const key = getCopyKey(card);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return false;
+    remaining.set(key, count - 1);
+    return true;
+  });
+
+  return {
+    seenOnTurn: lastSeen.turn,
+    wheeled,
+    gone: pack.removedLog.filter(record => record.turn > lastSeen.turn),
+  };
+}
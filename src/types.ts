@@ -5,39 +5,138 @@ export type Card = {
   cost?: number;
   images?: { full?: string };
   type?: string;
+  fullIdentifier?: string; // e.g. "1/204 • EN • 10" (number • language • set)
+  code?: string; // short card code from the set data, e.g. "zk"
+  number?: number; // collector number within the set
+  inkwell?: boolean; // true when the card can be put into the inkwell
+  lore?: number; // lore gained when questing (characters) or each turn (locations)
+  strength?: number;
+  willpower?: number;
+  subtypes?: string[]; // e.g. ["Storyborn", "Hero"], or ["Song"] on song actions
   keywordAbilities?: string[];
+  fullText?: string; // rules text, keyword reminders included
   baseCard?: boolean; // true for base cards used in RNG, false for duplicates
   rarity?: string; // Card rarity (Common, Uncommon, Rare, Super Rare, Legendary, Epic, Iconic, Enchanted, Special)
+  foil?: boolean; // true when the card was opened in a pack's foil slot
+  allowedInFormats?: Record<string, { allowed: boolean }>; // constructed legality, e.g. { Core: { allowed: true } }
+  allowedInTournamentsFromDate?: string; // e.g. "2025-11-28"; set data from before then marks the card not allowed
+};
+
+export type CardRating = {
+  cardId: number | string;
+  grade: number;           // 0–5
+  notes: string;
+};
+
+export type CardRatings = Record<string, number>; // grade by card key (see getCardKey)
+
+export type RemovalStrategyId = 'mixed' | 'random' | 'rarest' | 'highest-rated' | 'color-biased' | 'bots';
+
+export type RemovalRecord = {
+  round: number;
+  turn: number;
+  card: Card;                    // the card taken out of the pack
+  strategy: RemovalStrategyId;   // strategy that removed it
+  reason: string;                // why, e.g. "random", "rarest", "colour bias (Ruby/Steel)"
+};
+
+export type PackSnapshot = {
+  turn: number;            // turn of the current round I last picked from the pack
+  cards: Card[];           // what I left in it
 };
 
 export type Pack = {
   id: string;              // e.g., "R1P1"
   cards: Card[];           // remaining cards
-  removedLog: number[];    // indexes/ids removed by randomness (optional debug)
+  removedLog: RemovalRecord[]; // cards taken by the removal step, oldest first
+  lastSeen?: PackSnapshot; // set when I finish a turn with the pack, for spotting what wheeled
+};
+
+export type PackSlot = {
+  name: string;                     // e.g. "Commons"
+  count: number;                    // cards this slot adds to a pack
+  weights: Record<string, number>;  // rarity -> relative odds
+  foil?: boolean;                   // foil slots can hold any printing, including Enchanted/Iconic
+};
+
+export type CollationProfile = {
+  id: string;
+  name: string;
+  slots: PackSlot[];
+};
+
+export type DraftMode =
+  | 'shared'  // house format: everyone shares the round's packs, I pick from pack k on turn k
+  | 'pod';    // pass the pack: one pack per seat, bots fill the other seats
+
+export type DraftConfig = {
+  mode?: DraftMode;        // defaults to 'shared'
+  rounds: number;          // rounds in the draft
+  packsPerRound: number;   // packs opened each round (seats at the table in 'pod' mode)
+  packSize: number;        // cards per pack
+  picksPerTurn: number;    // cards I take from the active pack each turn
+  removalsPerTurn: number; // cards removed from every other non-empty pack each turn (shared mode only)
+  collation?: CollationProfile | null; // rarity slots for packs; none = every card equally likely
+  removalStrategy?: RemovalStrategyId; // how the removal step chooses cards; defaults to 'mixed' (pod mode always uses bots)
 };
 
 export type RoundState = {
-  roundNumber: number;     // 1..6
-  packs: Pack[];           // length = 6
-  turn: number;            // 1..12
+  roundNumber: number;     // 1..config.rounds
+  packs: Pack[];           // length = config.packsPerRound
+  turn: number;            // 1..turns per round
+};
+
+export type BotPick = {
+  round: number;
+  turn: number;
+  card: Card;
+};
+
+export type BotState = {
+  id: number;              // seat number, 1..config.packsPerRound - 1 (I sit at seat 0)
+  name: string;            // e.g. "Bot 1"
+  pool: BotPick[];         // every card the bot has taken, oldest first
+};
+
+export type LoggedRemoval = {
+  packIndex: number;             // pack the card left
+  card: Card;
+  strategy: RemovalStrategyId;
+  reason: string;
 };
 
 export type PickLogEntry = {
   round: number;
   turn: number;
-  packIndex: number;       // 0..5
+  packIndex: number;       // 0..config.packsPerRound - 1
   picked: Card;
   removedCounts: number;   // how many cards randomly removed across other packs this turn
+  removed: LoggedRemoval[]; // the cards removed from the other packs after this pick, in pack order
+};
+
+export type RoundSummary = {
+  round: number;
+  picks: Card[];                       // cards I took this round, in pick order
+  inkCounts: Record<string, number>;   // my whole pool so far, by ink
+  costCounts: Record<number, number>;  // my whole pool so far, by cost (7 = 7 or more)
+  bestLost: RemovalRecord[];           // highest-graded cards removed this round, best first
 };
 
 export type DraftState = {
-  masterCards: Card[];
+  dealtPacks: Card[][][];  // every round's packs as dealt, rounds not reached yet included; rounds open from these
+  config: DraftConfig;
+  seed: string;            // seeds pack contents and removals; same seed + same picks = same draft
   rounds: RoundState[];    // current/active round is last element
-  currentRound: number;    // 1..6
-  currentTurn: number;     // 1..12 (within current round)
+  currentRound: number;    // 1..config.rounds
+  currentTurn: number;     // 1..turns per round (within current round)
+  picksThisTurn: number;   // picks already made in the current turn
   picks: Card[];           // all picks across all rounds
+  bots: BotState[];        // simulated drafters (only with the 'bots' removal strategy)
+  ratings: CardRatings;    // card grades when the draft started, read by bots and removal strategies
   log: PickLogEntry[];
+  roundSummaries: RoundSummary[]; // one per finished round
   isComplete: boolean;
-  undoBuffer: DraftState | null; // snapshot before last pick
+  pickHistory: number[];   // card index chosen at each pick; replaying them from the seed rebuilds the draft
+  redoStack: number[];     // undone picks, the next one to redo last
 };
 
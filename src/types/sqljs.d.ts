@@ -7,7 +7,7 @@ declare module 'sql.js' {
   export interface SqlJsDatabase {
     close(): void;
     run(sql: string, params?: any[]): SqlJsDatabase;
-    exec(sql: string): SqlJsQueryResult[];
+    exec(sql: string, params?: any[]): SqlJsQueryResult[];
     export(): Uint8Array;
   }
 
@@ -1,11 +1,14 @@
 import {
   resolveCardType,
   hasKeyword,
+  isRemoval,
   filterCards,
   matchesFilters,
   groupCardsByType,
   buildDisplayGroups,
   getSortComparator,
+  getCurveBucket,
+  getDeckStats,
   __TYPE_ORDER,
 } from './src/lib/deckUtils.js';
 
@@ -44,6 +47,15 @@ function testHasKeyword() {
   assert(hasKeyword(sampleCards[1], 'Evasive') === false, 'hasKeyword returns false when missing');
 }
 
+function testIsRemoval() {
+  const withText = fullText => ({ ...baseCard, id: 8, fullName: 'Test Card', color: 'Ruby', fullText });
+  assert(isRemoval(withText('Banish chosen character.')) === true, 'isRemoval matches banish effects');
+  assert(isRemoval(withText('When you play this character, deal 3 damage to chosen opposing damaged character.')) === true, 'isRemoval matches damage effects');
+  assert(isRemoval(withText('Banish chosen character of yours to draw 2 cards.')) === false, 'isRemoval ignores banishing your own cards');
+  assert(isRemoval(withText('Remove up to 2 damage from chosen character.')) === false, 'isRemoval ignores healing');
+  assert(isRemoval(sampleCards[0]) === false, 'isRemoval returns false without rules text');
+}
+
 function testFilterCards() {
   const byColor = filterCards(sampleCards, { colors: ['Ruby'] });
   assert(byColor.length === 1 && byColor[0].id === 2, 'filterCards filters by color');
@@ -87,13 +99,39 @@ function testGetSortComparator() {
   assert(sorted[0].fullName === 'Anna - Friendly Face', 'getSortComparator(name) sorts alphabetically');
 }
 
+function testGetCurveBucket() {
+  assert(getCurveBucket({ ...baseCard, cost: 0 }) === 1, 'getCurveBucket counts cost 0 as 1');
+  assert(getCurveBucket({ ...baseCard, cost: 3 }) === 3, 'getCurveBucket keeps costs 1-7');
+  assert(getCurveBucket({ ...baseCard, cost: 9 }) === 7, 'getCurveBucket buckets costs above 7 as 7+');
+}
+
+function testGetDeckStats() {
+  const cards = [
+    ...sampleCards,
+    { ...baseCard, id: 7, fullName: 'Maui - Demigod', color: 'Amber', cost: 8, type: 'Character', lore: 3, inkwell: false, keywordAbilities: ['Evasive'] },
+    { ...baseCard, id: 8, fullName: 'Dinglehopper', color: 'Ruby', cost: 0, type: 'Item' },
+  ].map(card => (card.type === 'Character' && card.lore === undefined ? { ...card, lore: 1 } : card));
+  const stats = getDeckStats(cards);
+  assert(stats.total === 7, 'getDeckStats counts every card');
+  assert(stats.inkable === 6 && stats.uninkable === 1, 'getDeckStats splits inkable and uninkable');
+  assert(stats.curve[7] === 1 && stats.curveByInk['Amber'][2] === 1 && stats.curveByInk['Amber'][7] === 1, 'getDeckStats buckets costs above 7 as 7+ per ink');
+  assert(stats.curve[0] === undefined && stats.curve[1] === 2, 'getDeckStats counts cost 0 in the cost 1 bucket');
+  assert(stats.characters === 3 && stats.totalLore === 5, 'getDeckStats totals character lore');
+  assert(Math.abs(stats.averageLore - 5 / 3) < 1e-9, 'getDeckStats averages lore per character');
+  assert(stats.types[0].type === 'Character' && stats.types[0].count === 3, 'getDeckStats lists types in Lorcana order');
+  assert(stats.keywords.length === 1 && stats.keywords[0].keyword === 'Evasive' && stats.keywords[0].count === 2, 'getDeckStats counts keywords');
+}
+
 testResolveCardType();
 testHasKeyword();
+testIsRemoval();
 testFilterCards();
 testMatchesFilters();
 testGroupCardsByType();
 testBuildDisplayGroups();
 testGetSortComparator();
+testGetCurveBucket();
+testGetDeckStats();
 
 if (!process.exitCode) {
   console.log('🎉 All deck utility tests passed');
@@ -0,0 +1,47 @@
+import { build } from 'esbuild';
+import { readFileSync } from 'node:fs';
+
+// inkPairs is TypeScript; bundle it for Node with the esbuild Vite ships
+const bundle = await build({
+  entryPoints: ['./src/lib/inkPairs.ts'],
+  bundle: true,
+  format: 'esm',
+  platform: 'node',
+  write: false,
+  logLevel: 'error',
+});
+const { getInkPairReports, PLAYABLE_GRADE } = await import(
+  `data:text/javascript;base64,${Buffer.from(bundle.outputFiles[0].text).toString('base64')}`
+);
+
+const setData = JSON.parse(readFileSync('./public/setdata.10.cleaned.json', 'utf8'));
+
+function assert(condition, message) {
+  if (!condition) {
+    console.error(`✖️  ${message}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ ${message}`);
+  }
+}
+
+function testPlainCommonsArePlayable() {
+  const commons = setData.cards.filter(card =>
+    card.rarity === 'Common' && card.baseCard !== false && !(card.keywordAbilities ?? []).length);
+  const reports = getInkPairReports(commons);
+  assert(reports.every(report => report.playables === report.cards), 'getInkPairReports counts unrated plain commons as playables');
+  assert(reports[0].playables > 0 && reports[0].curveCoverage > 0, 'getInkPairReports gives a pool of plain commons playables and curve coverage');
+}
+
+function testRatedBelowPlayableGrade() {
+  const [card] = setData.cards.filter(card => card.rarity === 'Common' && card.baseCard !== false);
+  const [report] = getInkPairReports([card], { [String(card.id)]: PLAYABLE_GRADE - 0.5 });
+  assert(report.playables === 0 && report.cards === 1, 'getInkPairReports leaves out cards rated below PLAYABLE_GRADE');
+}
+
+testPlainCommonsArePlayable();
+testRatedBelowPlayableGrade();
+
+if (!process.exitCode) {
+  console.log('🎉 All ink pair tests passed');
+}